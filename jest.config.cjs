@@ -1,8 +1,19 @@
-const rootConfig = require('../../jest.config.cjs');
-
 module.exports = {
-  ...rootConfig,
+  testEnvironment: 'node',
   testMatch: ['**/tests/**/*.test.ts'],
+  // Sources are ESM with NodeNext ".js" specifiers; tests run them as CommonJS, transpiled only
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        isolatedModules: true,
+        module: 'commonjs',
+        target: 'es2022',
+        esModuleInterop: true,
+        allowImportingTsExtensions: true,
+        noEmit: true
+      }
+    }]
+  },
   collectCoverageFrom: [
     'src/**/*.ts',
     '!**/node_modules/**',
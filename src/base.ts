@@ -4,25 +4,47 @@ import {
   ICacheStats,
   CacheBackend,
   CacheKeyParts,
-  stableHash
+  createCacheKey
 } from './index.js';
-import type { LoggerContract } from './types.js';
+import type {
+  CacheEntrySource,
+  CacheLoader,
+  ICacheEntry,
+  ICacheEntryMeta,
+  ICacheExportEntry,
+  ICacheSetOptions,
+  ICacheStaleEvent,
+  ICounterOptions,
+  IGetOrSetOptions,
+  LoggerContract
+} from './types.js';
+import { CacheError } from './cacheError.js';
+import { JsonSerializer } from './serializers/json-serializer.js';
+import { CacheEventEmitter } from './cache-events.js';
 
 /**
  * BaseCache
  *
  * Abstract base class for all cache backends (MemoryCache, RedisCache).
- * Provides common option handling, stats tracking, and utility methods.
+ * Provides common option handling, stats tracking, lifecycle events, and utility methods.
  */
-export abstract class BaseCache<T = any> implements ICacheProvider<T> {
+export abstract class BaseCache<T = any> extends CacheEventEmitter<T> implements ICacheProvider<T> {
   protected options: Required<ICacheOptions>;
   protected hits = 0;
   protected misses = 0;
+  protected staleServed = 0;
+
+  // In-flight loader promises, keyed by unprefixed key (single-flight)
+  private inFlight = new Map<string, Promise<T>>();
+
+  // Namespace versions of the default bumpVersion() implementation
+  private namespaceVersions = new Map<string, number>();
 
   readonly logger: LoggerContract | Console;
   readonly backend: CacheBackend;
 
   constructor(cacheBackend: CacheBackend, options: ICacheOptions = {}) {
+    super();
     this.backend = cacheBackend;
     this.options = this.normalizeOptions(options);
     this.logger = this.options.logger;
@@ -34,19 +56,44 @@ export abstract class BaseCache<T = any> implements ICacheProvider<T> {
       maxSize: options.maxSize ?? 1000,
       prefix: options.prefix ?? '',   // default empty prefix
       enabled: options.enabled ?? true,
-      logger: options.logger ?? console
+      logger: options.logger ?? console,
+      staleTtl: options.staleTtl ?? 0,
+      staleIfErrorTtl: options.staleIfErrorTtl ?? 0,
+      onStale: options.onStale ?? (() => {}),
+      serializer: options.serializer ?? new JsonSerializer(),
+      compression: options.compression ?? false,
+      encryption: options.encryption ?? false,
+      clone: options.clone ?? false
     };
   }
 
   generateKey(parts: Partial<CacheKeyParts>): string {
-    const { resource, operation, params } = parts;
+    return this.buildKey(createCacheKey(parts as CacheKeyParts));
+  }
 
-    if (!params) {
-      return this.buildKey(`${resource}:${operation}`);
-    }
+  /**
+   * The unprefixed key for `parts`, with the namespace's current version folded
+   * in (see bumpVersion). wrap() resolves its keys this way.
+   */
+  async versionedKey(parts: CacheKeyParts): Promise<string> {
+    const namespaceVersion = parts.namespace ? await this.getNamespaceVersion(parts.namespace) : 0;
+    return createCacheKey(parts, namespaceVersion);
+  }
+
+  // In-process counters; shared and persistent backends override both methods
+  async getNamespaceVersion(namespace: string): Promise<number> {
+    return this.namespaceVersions.get(namespace) ?? 0;
+  }
 
-    const hash = stableHash(params);
-    return this.buildKey(`${resource}:${operation}:${hash}`);
+  /**
+   * Invalidates every key of `namespace` in O(1): keys built with the new
+   * version no longer match the old entries, which expire or get evicted.
+   * Returns the new version (0 if the bump failed).
+   */
+  async bumpVersion(namespace: string): Promise<number> {
+    const version = (this.namespaceVersions.get(namespace) ?? 0) + 1;
+    this.namespaceVersions.set(namespace, version);
+    return version;
   }
 
   getOptions(): ICacheOptions {
@@ -59,12 +106,20 @@ export abstract class BaseCache<T = any> implements ICacheProvider<T> {
     this.onOptionsChanged?.(oldOptions, this.options);
   }
 
-  protected incrementHit(): void {
+  protected incrementHit(key: string, value: T): void {
     this.hits++;
+    this.emit("hit", { key, value });
   }
 
-  protected incrementMiss(): void {
+  protected incrementMiss(key: string): void {
     this.misses++;
+    this.emit("miss", { key });
+  }
+
+  // Logs a failed backend operation and reports it to "error" listeners
+  protected reportError(operation: string, message: string, error: unknown, key?: string): void {
+    this.logger.error(message, { err: error });
+    this.emit("error", { operation, error, ...(key !== undefined ? { key } : {}) });
   }
 
   protected calculateHitRate(): number {
@@ -72,12 +127,285 @@ export abstract class BaseCache<T = any> implements ICacheProvider<T> {
     return total > 0 ? this.hits / total : 0;
   }
 
+  protected toSetOptions(ttl?: number | ICacheSetOptions): ICacheSetOptions {
+    return typeof ttl === 'number' ? { ttl } : ttl ?? {};
+  }
+
+  /**
+   * Builds the entry to store and the hard TTL the backend should apply.
+   * When a stale window is configured the hard TTL covers it, and the entry
+   * records its soft expiry in `staleAt`.
+   */
+  protected createEntry(value: T, options: ICacheSetOptions): { entry: ICacheEntry<T>; ttl: number } {
+    const ttl = options.ttl ?? this.options.ttl;
+    const staleTtl = options.staleTtl ?? this.options.staleTtl;
+    const staleIfErrorTtl = options.staleIfErrorTtl ?? this.options.staleIfErrorTtl;
+
+    const entry: ICacheEntry<T> = { value, createdAt: Date.now() };
+    if (options.tags?.length) entry.tags = options.tags;
+
+    if (ttl <= 0 || (staleTtl <= 0 && staleIfErrorTtl <= 0)) {
+      return { entry, ttl };
+    }
+
+    entry.staleAt = entry.createdAt + ttl;
+    if (staleTtl > 0) entry.staleTtl = staleTtl;
+    if (staleIfErrorTtl > 0) entry.staleIfErrorTtl = staleIfErrorTtl;
+
+    return { entry, ttl: ttl + Math.max(staleTtl, staleIfErrorTtl) };
+  }
+
+  /**
+   * Export view of a stored entry, or undefined once it is no longer fresh.
+   * `hardTtl` is the backend's remaining TTL in ms (0 when it never expires);
+   * entries with a stale window report the time left until `staleAt`.
+   */
+  protected toExportEntry(key: string, entry: ICacheEntry<T>, hardTtl: number, now = Date.now()): ICacheExportEntry<T> | undefined {
+    const remainingTtl = entry.staleAt !== undefined ? entry.staleAt - now : hardTtl;
+    if (remainingTtl < 0 || (entry.staleAt !== undefined && remainingTtl === 0)) return undefined;
+
+    const exported: ICacheExportEntry<T> = { key, value: entry.value, remainingTtl };
+    if (entry.tags?.length) exported.tags = entry.tags;
+    return exported;
+  }
+
+  /**
+   * Metadata view of a stored entry, or undefined once it is no longer fresh.
+   * `hardTtl` is the backend's remaining TTL in ms, as for toExportEntry().
+   */
+  protected toEntryMeta(entry: ICacheEntry<T>, hardTtl: number, size: number, now = Date.now()): ICacheEntryMeta<T> | undefined {
+    if (!this.isFresh(entry, now) || hardTtl < 0) return undefined;
+
+    const remainingTtl = entry.staleAt !== undefined ? entry.staleAt - now : hardTtl;
+    const meta: ICacheEntryMeta<T> = {
+      value: entry.value,
+      createdAt: entry.createdAt,
+      expiresAt: remainingTtl > 0 ? now + remainingTtl : 0,
+      remainingTtl,
+      size
+    };
+    if (entry.tags?.length) meta.tags = entry.tags;
+    return meta;
+  }
+
+  /**
+   * The entry and hard TTL after moving its expiry to `ttl` from now (0 = never).
+   * An entry that had a stale window keeps it after the new soft expiry.
+   */
+  protected rescheduleEntry(entry: ICacheEntry<T>, ttl: number): { entry: ICacheEntry<T>; ttl: number } {
+    const window = Math.max(entry.staleTtl ?? 0, entry.staleIfErrorTtl ?? 0);
+    const rescheduled: ICacheEntry<T> = { ...entry };
+    delete rescheduled.staleAt;
+
+    if (ttl <= 0) return { entry: rescheduled, ttl: 0 };
+    if (window <= 0) return { entry: rescheduled, ttl };
+
+    rescheduled.staleAt = Date.now() + ttl;
+    return { entry: rescheduled, ttl: ttl + window };
+  }
+
+  // Serialized size of a value, for backends that do not know their stored bytes
+  protected sizeOf(value: unknown): number {
+    try {
+      const data = this.options.serializer.serialize(value);
+      return typeof data === 'string' ? Buffer.byteLength(data) : data.length;
+    } catch {
+      return 0;
+    }
+  }
+
+  protected isFresh(entry: Pick<ICacheEntry<T>, 'staleAt'>, now = Date.now()): boolean {
+    return entry.staleAt === undefined || now < entry.staleAt;
+  }
+
+  private isWithinStaleWindow(entry: ICacheEntry<T>, window: number | undefined, now: number): boolean {
+    return !!window && entry.staleAt !== undefined && now < entry.staleAt + window;
+  }
+
+  private reportStale(
+    key: string,
+    entry: ICacheEntry<T>,
+    reason: ICacheStaleEvent["reason"],
+    options: IGetOrSetOptions,
+    error?: unknown
+  ): void {
+    this.staleServed++;
+
+    const event: ICacheStaleEvent = { key, reason, age: Date.now() - entry.createdAt };
+    if (error !== undefined) event.error = error;
+
+    try {
+      (options.onStale ?? this.options.onStale)(event);
+    } catch (err: any) {
+      this.logger.warn(`onStale hook failed for key "${key}": ${err?.message}`);
+    }
+  }
+
   protected buildKey(key: string): string {
     return this.options.prefix
       ? `${this.options.prefix}:${key}`
       : key;
   }
 
+  // Inverse of buildKey, for keys reported by the backend itself
+  protected stripPrefix(fullKey: string): string {
+    const prefix = this.options.prefix ? `${this.options.prefix}:` : '';
+    return prefix && fullKey.startsWith(prefix) ? fullKey.slice(prefix.length) : fullKey;
+  }
+
+  async getOrSet(key: string, loader: CacheLoader<T>, options: IGetOrSetOptions = {}): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const entry = this.options.enabled ? await this.getEntry(key) : undefined;
+    const now = Date.now();
+
+    if (entry && this.isFresh(entry, now)) {
+      this.incrementHit(key, entry.value);
+      return entry.value;
+    }
+
+    // Stale-while-revalidate: answer now, refresh in the background
+    if (entry && this.isWithinStaleWindow(entry, entry.staleTtl, now)) {
+      this.incrementHit(key, entry.value);
+      this.reportStale(key, entry, "revalidate", options);
+      this.load(key, loader, options).catch((err: any) => {
+        this.logger.warn(`Background refresh failed for key "${key}": ${err?.message}`);
+      });
+      return entry.value;
+    }
+
+    this.incrementMiss(key);
+    const loading = this.load(key, loader, options);
+
+    if (!entry || !this.isWithinStaleWindow(entry, entry.staleIfErrorTtl, now)) {
+      return loading;
+    }
+
+    // Stale-if-error: fall back to the last good value
+    try {
+      return await loading;
+    } catch (err) {
+      this.reportStale(key, entry, "error", options, err);
+      return entry.value;
+    }
+  }
+
+  // Loads without caching while the namespace version cannot be read
+  async wrap(parts: CacheKeyParts, loader: CacheLoader<T>, options: IGetOrSetOptions = {}): Promise<T> {
+    let key: string;
+    try {
+      key = await this.versionedKey(parts);
+    } catch (err: any) {
+      this.logger.warn(`Loading "${createCacheKey(parts)}" uncached: ${err?.message}`);
+      return loader();
+    }
+    return this.getOrSet(key, loader, options);
+  }
+
+  // Single-flight: concurrent loads of the same key share one promise
+  private load(key: string, loader: CacheLoader<T>, options: IGetOrSetOptions): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = this.runLoader(key, loader, options).finally(() => {
+      this.inFlight.delete(key);
+    });
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Runs the loader and stores its result. Backends may override this to add
+   * cross-process coordination (see RedisCache).
+   */
+  protected async runLoader(key: string, loader: CacheLoader<T>, options: IGetOrSetOptions): Promise<T> {
+    const value = await loader();
+
+    if (value !== undefined) {
+      const { ttl, staleTtl, staleIfErrorTtl, tags } = options;
+      await this.set(key, value, { ttl, staleTtl, staleIfErrorTtl, tags });
+    }
+
+    return value;
+  }
+
+  // Batch defaults loop over the single-key operations; RedisCache pipelines them
+  async mget(keys: string[]): Promise<Array<T | undefined>> {
+    const values: Array<T | undefined> = [];
+
+    for (const key of keys) {
+      values.push(await this.get(key));
+    }
+
+    return values;
+  }
+
+  async mset(entries: Iterable<readonly [string, T]>, ttl?: number | ICacheSetOptions): Promise<void> {
+    for (const [key, value] of entries) {
+      await this.set(key, value, ttl);
+    }
+  }
+
+  async mdelete(keys: string[]): Promise<number> {
+    let deleted = 0;
+
+    for (const key of keys) {
+      if (await this.delete(key)) deleted++;
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Read-modify-write default, so concurrent calls may lose updates; MemoryCache
+   * and RedisCache update counters atomically. Without `ttl`, an existing
+   * counter keeps its expiry and a new one gets the default ttl.
+   */
+  async increment(key: string, by = 1, options: ICounterOptions = {}): Promise<number> {
+    const meta = await this.getWithMeta(key);
+    const current = meta ? meta.value : 0;
+
+    if (typeof current !== 'number') {
+      throw new CacheError(`Value of key "${key}" is not a counter`, 'NOT_A_COUNTER', 400);
+    }
+
+    const kept = meta && (meta.expiresAt === 0 ? 0 : Math.max(1, meta.remainingTtl));
+    const value = current + by;
+    await this.set(key, value as T, { ttl: options.ttl ?? kept ?? this.options.ttl });
+    return value;
+  }
+
+  async decrement(key: string, by = 1, options: ICounterOptions = {}): Promise<number> {
+    return this.increment(key, -by, options);
+  }
+
+  async touch(key: string, ttl = this.options.ttl): Promise<boolean> {
+    return this.expire(key, ttl);
+  }
+
+  async persist(key: string): Promise<boolean> {
+    return this.expire(key, 0);
+  }
+
+  /**
+   * Writes exported entries back with their remaining TTL and tags, so they
+   * expire when they would have in the source cache. Returns the count written.
+   */
+  async importEntries(entries: CacheEntrySource<T>): Promise<number> {
+    let imported = 0;
+
+    for await (const { key, value, remainingTtl, tags } of entries) {
+      if (remainingTtl < 0) continue;
+
+      await this.set(key, value, { ttl: remainingTtl, ...(tags?.length ? { tags } : {}) });
+      imported++;
+    }
+
+    return imported;
+  }
+
   async deleteByPattern(pattern: string): Promise<void> {
     const keys = await this.getKeys(pattern);
 
@@ -98,19 +426,28 @@ export abstract class BaseCache<T = any> implements ICacheProvider<T> {
 
   protected onOptionsChanged?(oldOptions: ICacheOptions, newOptions: ICacheOptions): void;
 
+  /** Reads the stored entry including stale ones, without touching stats. */
+  protected abstract getEntry(key: string): Promise<ICacheEntry<T> | undefined>;
+
   abstract get(key: string): Promise<T | undefined>;
-  abstract set(key: string, value: T, ttl?: number): Promise<void>;
+  abstract set(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<void>;
   abstract delete(key: string): Promise<boolean>;
   abstract has(key: string): Promise<boolean>;
 
+  abstract getWithMeta(key: string): Promise<ICacheEntryMeta<T> | undefined>;
+  /** Moves a fresh entry's expiry to `ttl` ms from now (0 = never); false when there is none. */
+  abstract expire(key: string, ttl: number): Promise<boolean>;
+
   abstract getKeys(pattern: string): Promise<string[]>;
   abstract clearByPrefix(): Promise<void>;
+  abstract invalidateTags(tags: string[]): Promise<void>;
   abstract size(): Promise<number>;
 
   async clear(): Promise<void> {
     await this.clearByPrefix();
     this.hits = 0;
     this.misses = 0;
+    this.staleServed = 0;
   }
 
   async getStats(): Promise<ICacheStats> {
@@ -120,7 +457,8 @@ export abstract class BaseCache<T = any> implements ICacheProvider<T> {
       misses: this.misses,
       hitRate: this.calculateHitRate(),
       size,
-      backend: this.backend
+      backend: this.backend,
+      staleServed: this.staleServed
     };
   }
 
@@ -133,4 +471,7 @@ export abstract class BaseCache<T = any> implements ICacheProvider<T> {
   async dispose(): Promise<void> {
     return this.disconnect();
   }
+
+  // Releases connections without deleting entries; in-process backends hold none
+  async close(): Promise<void> {}
 }
@@ -0,0 +1,111 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { randomUUID } from 'crypto';
+import type { CacheEntrySource, ICacheExportEntry } from './types.js';
+import type { ICacheProvider, ICacheSerializer } from './interface.js';
+import { CacheError } from './cacheError.js';
+import { TypedJsonSerializer } from './serializers/typed-serializer.js';
+
+export interface ICacheDumpOptions {
+  // Encodes each line; must produce single-line strings (default TypedJsonSerializer)
+  serializer?: ICacheSerializer;
+}
+
+export interface ICacheExportFileOptions extends ICacheDumpOptions {
+  pattern?: string;             // Keys to export (default "*")
+}
+
+/**
+ * Streams entries to a JSONL file, one `{ key, value, remainingTtl, tags? }`
+ * object per line. The file is written to a temporary name and renamed into
+ * place, so readers never see a partial dump. Returns the number of lines written.
+ */
+export async function writeEntriesToJsonl<T>(
+  file: string,
+  entries: CacheEntrySource<T>,
+  options: ICacheDumpOptions = {}
+): Promise<number> {
+  const serializer = options.serializer ?? new TypedJsonSerializer();
+  const tmpFile = `${file}.${randomUUID()}.tmp`;
+  const stream = createWriteStream(tmpFile, { encoding: 'utf8' });
+  let written = 0;
+
+  try {
+    for await (const entry of entries) {
+      const line = serializer.serialize(entry);
+      if (typeof line !== 'string' || line.includes('\n')) {
+        throw new CacheError(`Serializer "${serializer.name}" does not produce single-line text`, 'SERIALIZATION_ERROR');
+      }
+
+      if (!stream.write(`${line}\n`)) await once(stream, 'drain');
+      written++;
+    }
+
+    stream.end();
+    await finished(stream);
+    await fs.rename(tmpFile, file);
+    return written;
+  } catch (err) {
+    stream.destroy();
+    await fs.rm(tmpFile, { force: true });
+    throw err;
+  }
+}
+
+/** Reads entries back from a file written by `writeEntriesToJsonl`, one line at a time. */
+export async function* readEntriesFromJsonl<T = any>(
+  file: string,
+  options: ICacheDumpOptions = {}
+): AsyncIterable<ICacheExportEntry<T>> {
+  const serializer = options.serializer ?? new TypedJsonSerializer();
+  const input = createReadStream(file, { encoding: 'utf8' });
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      let entry: ICacheExportEntry<T>;
+      try {
+        entry = serializer.deserialize(line) as ICacheExportEntry<T>;
+      } catch (err: any) {
+        throw new CacheError(`Invalid cache dump line ${lineNumber} in ${file}: ${err?.message}`, 'DESERIALIZATION_ERROR');
+      }
+
+      if (typeof entry?.key !== 'string' || typeof entry.remainingTtl !== 'number') {
+        throw new CacheError(`Invalid cache dump line ${lineNumber} in ${file}: missing key or remainingTtl`, 'DESERIALIZATION_ERROR');
+      }
+
+      yield entry;
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+/** Dumps a cache's fresh entries to a JSONL file. Returns the number of entries written. */
+export async function exportCacheToFile<T>(
+  cache: ICacheProvider<T>,
+  file: string,
+  options: ICacheExportFileOptions = {}
+): Promise<number> {
+  if (!cache.exportEntries) {
+    throw new CacheError(`The ${cache.backend} backend does not support exportEntries`, 'UNSUPPORTED_OPERATION');
+  }
+
+  return writeEntriesToJsonl(file, cache.exportEntries(options.pattern), options);
+}
+
+/** Loads a JSONL dump into a cache, keeping each entry's remaining TTL. */
+export async function importCacheFromFile<T>(
+  cache: ICacheProvider<T>,
+  file: string,
+  options: ICacheDumpOptions = {}
+): Promise<number> {
+  return cache.importEntries(readEntriesFromJsonl<T>(file, options));
+}
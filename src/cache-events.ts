@@ -0,0 +1,44 @@
+import { EventEmitter } from 'node:events';
+import type { CacheEventListener, CacheEventName, ICacheEvents, LoggerContract } from './types.js';
+
+/**
+ * CacheEventEmitter
+ *
+ * Typed lifecycle events for cache providers. A throwing listener is logged
+ * instead of failing the cache operation, and unhandled "error" events are
+ * dropped rather than thrown as with a plain EventEmitter.
+ */
+export abstract class CacheEventEmitter<T = any> {
+  private readonly events = new EventEmitter().setMaxListeners(0);
+
+  abstract readonly logger: LoggerContract | Console;
+
+  on<E extends CacheEventName>(event: E, listener: CacheEventListener<T, E>): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  once<E extends CacheEventName>(event: E, listener: CacheEventListener<T, E>): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  off<E extends CacheEventName>(event: E, listener: CacheEventListener<T, E>): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  listenerCount(event: CacheEventName): number {
+    return this.events.listenerCount(event);
+  }
+
+  protected emit<E extends CacheEventName>(event: E, payload: ICacheEvents<T>[E]): void {
+    if (this.events.listenerCount(event) === 0) return;
+
+    try {
+      this.events.emit(event, payload);
+    } catch (err: any) {
+      this.logger.warn(`Cache "${event}" listener failed: ${err?.message}`);
+    }
+  }
+}
@@ -3,27 +3,36 @@ import { stableHash } from './stable-hash.js';
 // Generic Cache Key Generator (Production-Ready)
 
 export type CacheKeyParts = {
-  //version?: string;
-  //namespace: string;
+  version?: string | number;    // Schema version, rendered as "v<version>"
+  namespace?: string;           // Unit of bumpVersion() invalidation
   resource: string;
   operation: string;
   params?: unknown;
 };
 
 /**
- * Generate a deterministic, hashed cache key
+ * Generate a deterministic, hashed cache key:
+ * `[v<version>:][<namespace>[@<namespaceVersion>]:]<resource>:<operation>[:<hash>]`.
+ * A namespace version above 0 (see bumpVersion) moves the namespace to new keys.
  */
-export function createCacheKey({
-  resource,
-  operation,
-  params,
-}: CacheKeyParts): string {
-  if (!params) {
-    return `${resource}:${operation}`;
+export function createCacheKey(
+  { version, namespace, resource, operation, params }: CacheKeyParts,
+  namespaceVersion = 0
+): string {
+  const segments: string[] = [];
+
+  if (version !== undefined) {
+    segments.push(`v${version}`);
+  }
+  if (namespace) {
+    segments.push(namespaceVersion > 0 ? `${namespace}@${namespaceVersion}` : namespace);
   }
+  segments.push(resource, operation);
 
-  const hash = stableHash(params);
-  return `${resource}:${operation}:${hash}`;
+  if (params) {
+    segments.push(stableHash(params));
+  }
+  return segments.join(':');
 }
 
 /**
@@ -32,6 +41,7 @@ Repository Usage (Recommended)
 import { createCacheKey } from '../cache/cache-key';
 
 const key = createCacheKey({
+  version: 1,
   namespace: 'data',
   resource: this.model.modelName,
   operation: 'list',
@@ -69,4 +79,11 @@ createCacheKey({
 SHA-1 is fast enough for cache keys (not crypto-security)
 Normalization is shallow and safe for request-sized objects
 16-char hash → collision risk is negligible in practice
+
+7️⃣ Namespace Versions
+// wrap() and versionedKey() fold the namespace's stored version into the key
+await cache.wrap({ namespace: 'User', resource: 'User', operation: 'id', params: id }, load);
+
+// After a schema change: every "User" key is orphaned in O(1)
+await cache.bumpVersion('User');
  */
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { randomUUID } from 'crypto';
+import type { ICacheProvider } from './interface.js';
+import type { ILockHandle, ILockOptions, IWithLockOptions } from './types.js';
+import { CacheError } from './cacheError.js';
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * CacheLock
+ *
+ * Mutex on top of a provider's lock primitives: RedisCache for locks shared
+ * between processes, MemoryCache within one process. Every acquisition gets
+ * its own token, so an owner whose lock expired and was taken over can no
+ * longer release or extend it.
+ */
+export class CacheLock {
+  private readonly ttl: number;
+  private readonly retries: number;
+  private readonly delay: number;
+
+  constructor(private readonly cache: ICacheProvider, defaults: ILockOptions = {}) {
+    if (!cache.acquireLock || !cache.releaseLock || !cache.extendLock) {
+      throw new CacheError(`The ${cache.backend} backend does not support locks`, 'UNSUPPORTED_OPERATION');
+    }
+
+    this.ttl = defaults.ttl ?? 10_000;
+    this.retries = defaults.retry?.retries ?? 0;
+    this.delay = defaults.retry?.delay ?? 100;
+  }
+
+  /** Resolves with the held lock, or undefined if another owner still holds it after the retries. */
+  async acquire(key: string, options: ILockOptions = {}): Promise<ILockHandle | undefined> {
+    const ttl = options.ttl ?? this.ttl;
+    const retries = options.retry?.retries ?? this.retries;
+    const delay = options.retry?.delay ?? this.delay;
+    const token = randomUUID();
+
+    for (let attempt = 0; ; attempt++) {
+      if (await this.cache.acquireLock!(key, token, ttl)) {
+        return { key, token, ttl };
+      }
+      if (attempt >= retries) return undefined;
+      await sleep(delay);
+    }
+  }
+
+  /** False when the lock had already expired or passed to another owner. */
+  async release(lock: ILockHandle): Promise<boolean> {
+    return this.cache.releaseLock!(lock.key, lock.token);
+  }
+
+  /** Resets the lock's expiry to `ttl` from now; false when it is no longer held. */
+  async extend(lock: ILockHandle, ttl = lock.ttl): Promise<boolean> {
+    const extended = await this.cache.extendLock!(lock.key, lock.token, ttl);
+    if (extended) lock.ttl = ttl;
+    return extended;
+  }
+
+  /**
+   * Runs `fn` while holding the lock and renews it every `extendEvery` ms.
+   * Throws CacheError LOCK_NOT_ACQUIRED when the lock stays busy. When a
+   * renewal finds the lock gone, `signal` is aborted and `fn` should stop.
+   */
+  async withLock<R>(
+    key: string,
+    fn: (signal: AbortSignal) => Promise<R> | R,
+    options: IWithLockOptions = {}
+  ): Promise<R> {
+    const lock = await this.acquire(key, options);
+    if (!lock) {
+      throw new CacheError(`Lock "${key}" is held by another owner`, 'LOCK_NOT_ACQUIRED', 409);
+    }
+
+    const controller = new AbortController();
+    const renew = async () => {
+      try {
+        if (controller.signal.aborted || (await this.extend(lock))) return;
+
+        this.cache.logger.warn(`CacheLock - lost lock "${key}" while its holder was running`);
+        controller.abort(new CacheError(`Lock "${key}" was lost`, 'LOCK_LOST', 409));
+      } catch (err: any) {
+        // Still held until it expires; the next renewal tries again
+        this.cache.logger.warn(`CacheLock - failed to extend lock "${key}": ${err?.message}`);
+      }
+    };
+
+    const timer = setInterval(renew, options.extendEvery ?? Math.max(1, Math.floor(lock.ttl / 3)));
+    timer.unref?.();
+
+    try {
+      return await fn(controller.signal);
+    } finally {
+      clearInterval(timer);
+      await this.release(lock).catch((err: any) => {
+        this.cache.logger.warn(`CacheLock - failed to release lock "${key}": ${err?.message}`);
+      });
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import type { CircuitState, ICircuitBreakerOptions, ICircuitBreakerStats } from './types.js';
+import { CacheError } from './cacheError.js';
+
+export type CircuitStateListener = (state: CircuitState, previous: CircuitState) => void;
+
+/** True for the error thrown by CircuitBreaker.execute() while the breaker refuses calls. */
+export function isCircuitOpenError(err: unknown): boolean {
+  return err instanceof CacheError && err.code === 'CIRCUIT_OPEN';
+}
+
+/**
+ * CircuitBreaker
+ *
+ * Opens after `failureThreshold` consecutive failures and then refuses calls
+ * without running them. After `openTimeout` it turns half-open and lets up to
+ * `halfOpenProbes` calls through: one success closes it, one failure re-opens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private opened = 0;
+  private rejected = 0;
+  private openedAt?: number;
+  private probes = 0;
+
+  private readonly failureThreshold: number;
+  private readonly openTimeout: number;
+  private readonly halfOpenProbes: number;
+  private readonly callTimeout: number;
+
+  constructor(options: ICircuitBreakerOptions = {}, private readonly onStateChange?: CircuitStateListener) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+    this.openTimeout = options.openTimeout ?? 30_000;
+    this.halfOpenProbes = Math.max(1, options.halfOpenProbes ?? 1);
+    this.callTimeout = options.callTimeout ?? 0;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.openTimeout) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /** Whether a call made now would be let through. */
+  allowsRequest(): boolean {
+    const state = this.getState();
+    return state === 'closed' || (state === 'half-open' && this.probes < this.halfOpenProbes);
+  }
+
+  async execute<R>(run: () => Promise<R>): Promise<R> {
+    if (!this.allowsRequest()) {
+      this.rejected++;
+      throw new CacheError('Circuit breaker is open', 'CIRCUIT_OPEN', 503);
+    }
+
+    const probe = this.state === 'half-open';
+    if (probe) this.probes++;
+
+    try {
+      const result = await this.withTimeout(run);
+      this.recordSuccess();
+      return result;
+    } catch (err) {
+      this.recordFailure();
+      throw err;
+    } finally {
+      if (probe) this.probes--;
+    }
+  }
+
+  getStats(): ICircuitBreakerStats {
+    const stats: ICircuitBreakerStats = {
+      state: this.getState(),
+      failures: this.failures,
+      opened: this.opened,
+      rejected: this.rejected
+    };
+    if (this.openedAt !== undefined) stats.openedAt = this.openedAt;
+    return stats;
+  }
+
+  /** Closes the breaker and clears its counters. */
+  reset(): void {
+    this.failures = 0;
+    this.opened = 0;
+    this.rejected = 0;
+    this.openedAt = undefined;
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  private recordSuccess(): void {
+    this.failures = 0;
+    if (this.state === 'half-open') this.transition('closed');
+  }
+
+  private recordFailure(): void {
+    this.failures++;
+
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.failureThreshold)) {
+      this.opened++;
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.onStateChange?.(state, previous);
+  }
+
+  private withTimeout<R>(run: () => Promise<R>): Promise<R> {
+    if (this.callTimeout <= 0) return run();
+
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new CacheError(`Call timed out after ${this.callTimeout}ms`, 'CIRCUIT_TIMEOUT', 504)),
+        this.callTimeout
+      );
+    });
+
+    return Promise.race([run(), timeout]).finally(() => clearTimeout(timer));
+  }
+}
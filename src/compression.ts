@@ -0,0 +1,108 @@
+import { promisify } from 'util';
+import { performance } from 'perf_hooks';
+import zlib from 'zlib';
+import type { CompressionAlgorithm, ICompressionOptions, ICompressionStats } from './types.js';
+import { CacheError } from './cacheError.js';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const deflate = promisify(zlib.deflate);
+const inflate = promisify(zlib.inflate);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+// Header: 0x00 "cz" <algorithm id>. Serialized entries never start with 0x00,
+// so compressed and plain payloads can live side by side.
+const MAGIC = Buffer.from([0x00, 0x63, 0x7a]);
+const HEADER_SIZE = MAGIC.length + 1;
+
+const ALGORITHM_IDS: Record<CompressionAlgorithm, number> = {
+  gzip: 1,
+  deflate: 2,
+  brotli: 3,
+};
+
+/**
+ * PayloadCompressor
+ *
+ * Compresses serialized payloads above a size threshold and tracks how much
+ * it saved. Reads always go through `decompress`, which passes plain payloads through.
+ */
+export class PayloadCompressor {
+  private stats: ICompressionStats = this.emptyStats();
+
+  static isCompressed(data: Buffer): boolean {
+    return data.length >= HEADER_SIZE && data.subarray(0, MAGIC.length).equals(MAGIC);
+  }
+
+  async compress(data: string | Buffer, options: ICompressionOptions | false): Promise<string | Buffer> {
+    if (!options) return data;
+
+    const input = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+    if (input.length < (options.threshold ?? 1024)) return data;
+
+    const start = performance.now();
+    const compressed = await this.run(options.algorithm, input, options.level);
+    this.stats.compressTimeMs += performance.now() - start;
+
+    // Not worth it (already compressed or random data)
+    if (compressed.length + HEADER_SIZE >= input.length) return data;
+
+    this.stats.compressedWrites++;
+    this.stats.bytesSaved += input.length - compressed.length - HEADER_SIZE;
+
+    const header = Buffer.concat([MAGIC, Buffer.from([ALGORITHM_IDS[options.algorithm]])]);
+    return Buffer.concat([header, compressed]);
+  }
+
+  async decompress(data: Buffer): Promise<Buffer> {
+    if (!PayloadCompressor.isCompressed(data)) return data;
+
+    const id = data[MAGIC.length];
+    const body = data.subarray(HEADER_SIZE);
+    const start = performance.now();
+
+    try {
+      switch (id) {
+        case ALGORITHM_IDS.gzip:
+          return await gunzip(body);
+        case ALGORITHM_IDS.deflate:
+          return await inflate(body);
+        case ALGORITHM_IDS.brotli:
+          return await brotliDecompress(body);
+        default:
+          throw new CacheError(`Unknown compression algorithm id ${id}`, "DECOMPRESSION_ERROR");
+      }
+    } finally {
+      this.stats.decompressTimeMs += performance.now() - start;
+    }
+  }
+
+  getStats(): ICompressionStats {
+    return { ...this.stats };
+  }
+
+  reset(): void {
+    this.stats = this.emptyStats();
+  }
+
+  private run(algorithm: CompressionAlgorithm, input: Buffer, level?: number): Promise<Buffer> {
+    switch (algorithm) {
+      case 'gzip':
+        return gzip(input, level === undefined ? {} : { level });
+      case 'deflate':
+        return deflate(input, level === undefined ? {} : { level });
+      case 'brotli':
+        return brotliCompress(
+          input,
+          level === undefined ? {} : { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level } }
+        );
+      default:
+        throw new CacheError(`Unsupported compression algorithm: ${algorithm}`, "UNSUPPORTED_COMPRESSION", 400);
+    }
+  }
+
+  private emptyStats(): ICompressionStats {
+    return { compressedWrites: 0, bytesSaved: 0, compressTimeMs: 0, decompressTimeMs: 0 };
+  }
+}
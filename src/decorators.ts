@@ -0,0 +1,223 @@
+import {
+  CacheRegistry,
+  ICacheOptions,
+  ICacheProvider,
+  ICacheSetOptions,
+  createCacheKey
+} from "./index.js";
+
+type AnyMethod = (this: any, ...args: any[]) => any;
+
+/** Where decorated methods cache: a provider, a lazy getter, or a registry scope. */
+export type CacheTarget =
+  | ICacheProvider
+  | (() => ICacheProvider)
+  | { registry: CacheRegistry; name?: string; options?: Partial<ICacheOptions> };
+
+interface IDecoratorKeyOptions {
+  cache: CacheTarget;
+  resource?: string;                          // Default: class name
+  operation?: string;                         // Default: method name
+  key?: (...args: any[]) => string;           // Replaces the CacheKeyParts key
+  condition?: (...args: any[]) => boolean;    // Skip the cache when false
+}
+
+export interface ICacheableOptions extends IDecoratorKeyOptions, Omit<ICacheSetOptions, "tags"> {
+  tags?: string[] | ((...args: any[]) => string[]);
+  unless?: (result: any) => boolean;          // Do not store results matching this
+}
+
+export type ICachePutOptions = ICacheableOptions;
+
+export interface ICacheEvictOptions extends IDecoratorKeyOptions {
+  allEntries?: boolean;                       // Evict every key of resource(:operation)
+  tags?: string[] | ((...args: any[]) => string[]);
+  beforeInvocation?: boolean;                 // Evict even if the method throws
+}
+
+/**
+ * Method decorator usable both as a TC39 decorator `(value, context)` and as a
+ * legacy `experimentalDecorators` decorator `(target, name, descriptor)`.
+ */
+export type CacheMethodDecorator = (target: any, context: any, descriptor?: PropertyDescriptor) => any;
+
+/**
+ * Caches the method's result. Keys default to CacheKeyParts built from the class name
+ * (resource), the method name (operation) and the arguments (params, via stableHash).
+ * Concurrent calls with the same arguments share one invocation.
+ */
+export function Cacheable(options: ICacheableOptions): CacheMethodDecorator {
+  const resolve = targetResolver(options.cache);
+
+  return methodDecorator((original, methodName) =>
+    async function (this: any, ...args: any[]) {
+      if (options.condition && !options.condition(...args)) {
+        return original.apply(this, args);
+      }
+
+      const cache = resolve();
+      const key = buildKey(options, this, methodName, args);
+
+      if (!options.unless) {
+        return cache.getOrSet(key, () => original.apply(this, args), setOptions(options, args));
+      }
+
+      // `unless` needs the result before deciding to store it, so no shared loader here
+      const cached = await cache.get(key);
+      if (cached !== undefined) return cached;
+
+      const result = await original.apply(this, args);
+      if (result !== undefined && !options.unless(result)) {
+        await cache.set(key, result, setOptions(options, args));
+      }
+      return result;
+    }
+  );
+}
+
+/** Always runs the method and stores its result under the method's key. */
+export function CachePut(options: ICachePutOptions): CacheMethodDecorator {
+  const resolve = targetResolver(options.cache);
+
+  return methodDecorator((original, methodName) =>
+    async function (this: any, ...args: any[]) {
+      const result = await original.apply(this, args);
+
+      if (options.condition && !options.condition(...args)) return result;
+      if (result === undefined || options.unless?.(result)) return result;
+
+      await resolve().set(buildKey(options, this, methodName, args), result, setOptions(options, args));
+      return result;
+    }
+  );
+}
+
+/**
+ * Evicts cache entries after the method succeeds (or before it runs with
+ * `beforeInvocation`). Point `operation` at a @Cacheable method to evict its entries.
+ */
+export function CacheEvict(options: ICacheEvictOptions): CacheMethodDecorator {
+  const resolve = targetResolver(options.cache);
+
+  return methodDecorator((original, methodName) =>
+    async function (this: any, ...args: any[]) {
+      const evict = async () => {
+        if (options.condition && !options.condition(...args)) return;
+
+        const cache = resolve();
+        const tags = typeof options.tags === "function" ? options.tags(...args) : options.tags;
+
+        if (tags?.length) {
+          await cache.invalidateTags(tags);
+        }
+
+        if (options.allEntries) {
+          const resource = options.resource ?? className(this);
+
+          if (options.operation) {
+            // The key without params, and keys with params; not getUserByIdAndRole for getUserById
+            const operationKey = `${resource}:${options.operation}`;
+            await cache.delete(operationKey);
+            await cache.deleteByPrefix(`${operationKey}:`);
+          } else {
+            await cache.deleteByPrefix(`${resource}:`);
+          }
+        } else if (!tags?.length || options.key || options.operation) {
+          await cache.delete(buildKey(options, this, methodName, args));
+        }
+      };
+
+      if (options.beforeInvocation) {
+        await evict();
+        return original.apply(this, args);
+      }
+
+      const result = await original.apply(this, args);
+      await evict();
+      return result;
+    }
+  );
+}
+
+/**
+ * CacheDecorator
+ *
+ * Binds the decorators to one cache target:
+ *
+ *   const decorator = new CacheDecorator(cache);
+ *   class UserService {
+ *     @decorator.cache({ ttl: 300_000 })
+ *     async getUserById(id: string) { ... }
+ *   }
+ */
+export class CacheDecorator {
+  constructor(private readonly target: CacheTarget) {}
+
+  cache(options: Omit<ICacheableOptions, "cache"> = {}): CacheMethodDecorator {
+    return Cacheable({ ...options, cache: this.target });
+  }
+
+  put(options: Omit<ICachePutOptions, "cache"> = {}): CacheMethodDecorator {
+    return CachePut({ ...options, cache: this.target });
+  }
+
+  evict(options: Omit<ICacheEvictOptions, "cache"> = {}): CacheMethodDecorator {
+    return CacheEvict({ ...options, cache: this.target });
+  }
+}
+
+function methodDecorator(wrap: (original: AnyMethod, methodName: string) => AnyMethod): CacheMethodDecorator {
+  return (target, context, descriptor) => {
+    // TC39: (method, ClassMethodDecoratorContext) → replacement method
+    if (context !== null && typeof context === "object" && "kind" in context) {
+      return wrap(target, String(context.name));
+    }
+
+    // Legacy: (prototype, propertyKey, descriptor) → descriptor
+    if (!descriptor || typeof descriptor.value !== "function") {
+      throw new TypeError(`Cache decorators can only be applied to methods (${String(context)})`);
+    }
+    descriptor.value = wrap(descriptor.value, String(context));
+    return descriptor;
+  };
+}
+
+// Registry scopes are resolved on first call, after the application has registered backends
+function targetResolver(target: CacheTarget): () => ICacheProvider {
+  let resolved: ICacheProvider | undefined;
+
+  return () => {
+    if (resolved) return resolved;
+
+    if (typeof target === "function") return target();
+
+    if ("registry" in target) {
+      const { registry, name, options } = target;
+      resolved = registry.getScopedOrDefault({ ...(name ? { name } : {}), ...(options ? { options } : {}) });
+      return resolved;
+    }
+
+    resolved = target;
+    return resolved;
+  };
+}
+
+function className(instance: any): string {
+  return typeof instance === "function" ? instance.name : instance?.constructor?.name ?? "anonymous";
+}
+
+function buildKey(options: IDecoratorKeyOptions, instance: any, methodName: string, args: any[]): string {
+  if (options.key) return options.key(...args);
+
+  return createCacheKey({
+    resource: options.resource ?? className(instance),
+    operation: options.operation ?? methodName,
+    params: args.length > 0 ? args : undefined
+  });
+}
+
+function setOptions(options: ICacheableOptions, args: any[]): ICacheSetOptions {
+  const { ttl, staleTtl, staleIfErrorTtl } = options;
+  const tags = typeof options.tags === "function" ? options.tags(...args) : options.tags;
+  return { ttl, staleTtl, staleIfErrorTtl, ...(tags ? { tags } : {}) };
+}
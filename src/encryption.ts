@@ -0,0 +1,106 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { IEncryptionOptions } from './types.js';
+import { CacheError } from './cacheError.js';
+
+// Envelope: 0x00 "en" <version> <key id length> <key id> <iv:12> <auth tag:16> <ciphertext>
+const MAGIC = Buffer.from([0x00, 0x65, 0x6e]);
+const VERSION = 1;
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+
+/**
+ * PayloadEncryptor
+ *
+ * AES-256-GCM envelopes tagged with the id of the key that produced them, so
+ * keys can be rotated without flushing the cache: new entries use the primary
+ * key while older ones stay readable as long as their key is still configured.
+ * The cache key is bound as additional authenticated data, which stops an
+ * encrypted value from being replayed under another key.
+ */
+export class PayloadEncryptor {
+  private readonly keys = new Map<string, Buffer>();
+  private readonly primaryKeyId: string;
+  readonly allowPlaintext: boolean;
+
+  constructor(options: IEncryptionOptions) {
+    for (const { id, key } of options.keys) {
+      const material = typeof key === 'string' ? Buffer.from(key, 'base64') : key;
+
+      if (material.length !== 32) {
+        throw new CacheError(`Encryption key "${id}" must be 32 bytes`, "INVALID_ENCRYPTION_KEY", 400);
+      }
+      if (Buffer.byteLength(id) > 255) {
+        throw new CacheError(`Encryption key id "${id}" is too long`, "INVALID_ENCRYPTION_KEY", 400);
+      }
+
+      this.keys.set(id, material);
+    }
+
+    const primaryKeyId = options.primaryKeyId ?? options.keys[0]?.id;
+    if (primaryKeyId === undefined || !this.keys.has(primaryKeyId)) {
+      throw new CacheError("No primary encryption key configured", "INVALID_ENCRYPTION_KEY", 400);
+    }
+
+    this.primaryKeyId = primaryKeyId;
+    this.allowPlaintext = options.allowPlaintext ?? false;
+  }
+
+  static isEncrypted(data: Buffer): boolean {
+    return data.length > MAGIC.length && data.subarray(0, MAGIC.length).equals(MAGIC);
+  }
+
+  encrypt(data: string | Buffer, aad: string): Buffer {
+    const keyId = Buffer.from(this.primaryKeyId, 'utf8');
+    const iv = randomBytes(IV_SIZE);
+
+    const cipher = createCipheriv('aes-256-gcm', this.keys.get(this.primaryKeyId)!, iv);
+    cipher.setAAD(Buffer.from(aad, 'utf8'));
+
+    const ciphertext = Buffer.concat([
+      cipher.update(typeof data === 'string' ? Buffer.from(data, 'utf8') : data),
+      cipher.final()
+    ]);
+
+    return Buffer.concat([
+      MAGIC,
+      Buffer.from([VERSION, keyId.length]),
+      keyId,
+      iv,
+      cipher.getAuthTag(),
+      ciphertext
+    ]);
+  }
+
+  /** Throws a CacheError when the payload cannot be authenticated. */
+  decrypt(data: Buffer, aad: string): Buffer {
+    if (!PayloadEncryptor.isEncrypted(data)) {
+      if (this.allowPlaintext) return data;
+      throw new CacheError("Payload is not encrypted", "DECRYPTION_FAILED");
+    }
+
+    let offset = MAGIC.length;
+    const version = data[offset++];
+    if (version !== VERSION) {
+      throw new CacheError(`Unsupported encryption envelope version ${version}`, "DECRYPTION_FAILED");
+    }
+
+    const idLength = data[offset++]!;
+    const keyId = data.toString('utf8', offset, offset += idLength);
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new CacheError(`Unknown encryption key id "${keyId}"`, "DECRYPTION_FAILED");
+    }
+
+    const iv = data.subarray(offset, offset += IV_SIZE);
+    const tag = data.subarray(offset, offset += TAG_SIZE);
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAAD(Buffer.from(aad, 'utf8'));
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(data.subarray(offset)), decipher.final()]);
+    } catch (err: any) {
+      throw new CacheError(`Decryption failed: ${err.message}`, "DECRYPTION_FAILED");
+    }
+  }
+}
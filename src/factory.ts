@@ -1,40 +1,125 @@
 
-import type { LoggerContract } from './types.js';
-import { ICacheOptions, CacheBackend , ICacheProvider,createRedisClient} from './index.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ICreateCacheOptions, CacheBackend , CacheBackendFactory, ICacheProvider,createRedisClient, createMemcachedClient, isRedisConnection} from './index.js';
 import { CacheError } from "./cacheError.js";
 import {MemoryCache} from "./providers/memory-cache.js";
 import {RedisCache} from "./providers/redis-cache.js";
+import {MemcachedCache} from "./providers/memcached-cache.js";
+import {FileCache} from "./providers/file-cache.js";
+import {ICacheTier, TieredCache} from "./providers/tiered-cache.js";
+
+const BUILTIN_BACKENDS: readonly string[] = ['memory', 'redis', 'memcached', 'file', 'tiered'];
+
+// Factories for custom backend types, by type
+const backendFactories = new Map<string, CacheBackendFactory>();
+
+/**
+ * Lets createCache() build providers of a custom backend type. Built-in types
+ * cannot be replaced, and each type can only have one factory.
+ */
+export function registerBackendFactory(type: string, factory: CacheBackendFactory): void {
+  if (BUILTIN_BACKENDS.includes(type)) {
+    throw new CacheError(`Backend "${type}" is built in and cannot be replaced`, "BACKEND_FACTORY_EXISTS", 409);
+  }
+  if (backendFactories.has(type)) {
+    throw new CacheError(`A factory for backend "${type}" is already registered`, "BACKEND_FACTORY_EXISTS", 409);
+  }
+  backendFactories.set(type, factory);
+}
+
+export function unregisterBackendFactory(type: string): boolean {
+  return backendFactories.delete(type);
+}
+
+export function hasBackendFactory(type: string): boolean {
+  return BUILTIN_BACKENDS.includes(type) || backendFactories.has(type);
+}
 
 // Factory for creating new cache instances
 
 export async function createCache<T = any>(
   backend: CacheBackend = 'memory',
-  options: ICacheOptions = {}
+  options: ICreateCacheOptions = {}
 ): Promise<ICacheProvider<T>> {
   const {logger=console}= options
   switch (backend) {
     case 'memory':
       return new MemoryCache<T>(options);
       
-    case 'redis':
-              
-      const redisUrl = process.env["REDIS_URL"];
-      if (!redisUrl) {
-        logger.warn!('REDIS_URL not set, falling back to memory cache');
-        return new MemoryCache<T>(options);
+    case 'redis': {
+      const { redis, ...cacheOptions } = options;
+
+      // A ready client is used as is; connection options fall back to REDIS_URL
+      const redisInstance = isRedisConnection(redis) ? redis : await createRedisClient(logger, redis);
+
+      if (!redisInstance) {
+        logger.warn!('No Redis connection configured and REDIS_URL not set, falling back to memory cache');
+        return new MemoryCache<T>(cacheOptions);
       }
-      
-    const redisInstance = await createRedisClient(logger);
 
-      if(!redisInstance){
+      if (redisInstance.status === 'wait') {
+        await redisInstance.connect();
+      }
+      await redisInstance.ping();
+      return new RedisCache<T>(redisInstance, cacheOptions);
+    }
+
+    case 'memcached': {
+      const memcachedClient = await createMemcachedClient(logger);
+
+      if (!memcachedClient) {
+        logger.warn!('MEMCACHED_URL not set, falling back to memory cache');
         return new MemoryCache<T>(options);
-      }else {
-        await redisInstance.ping();
-        return new RedisCache<T>(redisInstance, options);
-      } 
+      }
+
+      await memcachedClient.connect();
+      return new MemcachedCache<T>(memcachedClient, options);
+    }
+
+    case 'file': {
+      const { file, ...cacheOptions } = options;
+      const directory = file?.directory ?? process.env["CACHE_DIR"] ?? join(tmpdir(), 'cachejs');
+      return new FileCache<T>({ ...file, directory }, cacheOptions);
+    }
+
+    case 'tiered':
+      return createTieredCache<T>(options);
       
-    default:
-      // TypeScript should prevent this, but just in case
-      throw new CacheError(`Unsupported backend: ${backend}`, "UNSUPPORTED_BACKEND", 400);
+    default: {
+      const factory = backendFactories.get(backend);
+      if (!factory) {
+        throw new CacheError(`Unsupported backend: ${backend}`, "UNSUPPORTED_BACKEND", 400);
+      }
+      return (await factory(options)) as ICacheProvider<T>;
+    }
   }
 }
+
+async function createTieredCache<T>(options: ICreateCacheOptions): Promise<TieredCache<T>> {
+  // The prefix is applied once, by TieredCache: tiers store its full keys as they are
+  const { tiers: tierConfigs = ['memory', 'redis'], prefix, ...shared } = options;
+  const logger = shared.logger ?? console;
+  const tiers: ICacheTier<T>[] = [];
+
+  for (const config of tierConfigs) {
+    const { backend, ttl, options: tierOptions = {} } =
+      typeof config === 'string' ? { backend: config } : config;
+
+    if (backend === 'tiered') {
+      throw new CacheError('Tiered caches cannot be nested', "UNSUPPORTED_BACKEND", 400);
+    }
+
+    const cache = await createCache<T>(backend, { ...shared, ...tierOptions });
+
+    // createCache falls back to memory when Redis or Memcached is unavailable
+    if (cache.backend !== backend) {
+      logger.warn(`Tier "${backend}" unavailable, skipping it`);
+      continue;
+    }
+
+    tiers.push({ cache, ttl });
+  }
+
+  return new TieredCache<T>(tiers, { ...shared, prefix });
+}
@@ -6,13 +6,32 @@ export * from './cacheError.js';
 export * from "./stable-hash.js";
 export * from "./cache-key.js";
 
+export * from './serializers/json-serializer.js';
+export * from './serializers/typed-serializer.js';
+export * from './serializers/msgpack-serializer.js';
+export * from './compression.js';
+export * from './encryption.js';
+export * from './circuit-breaker.js';
+
+export * from './cache-events.js';
 export * from './base.js';
 
 export * from "./redis.client.js"
+export * from "./memcached.client.js";
+export * from "./invalidation-bus.js";
 // Export providers
 
 export * from './providers/memory-cache.js';
 export * from './providers/redis-cache.js';
+export * from './providers/memcached-cache.js';
+export * from './providers/file-cache.js';
+export * from './providers/tiered-cache.js';
 export * from './scoped-cache.js';
+export * from './warmer.js';
 export * from './registry.js';
 export * from "./factory.js";
+export * from "./decorators.js";
+export * from "./metrics.js";
+export * from "./cache-dump.js";
+export * from "./rate-limiter.js";
+export * from "./cache-lock.js";
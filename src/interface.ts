@@ -1,5 +1,5 @@
 import { CacheKeyParts } from "./index.js";
-import { CacheBackend, ICacheOptions, ICacheStats, LoggerContract} from "./types.js";
+import { CacheBackend, CacheEntrySource, CacheEventListener, CacheEventName, CacheLoader, ICacheEntryMeta, ICacheExportEntry, ICacheOptions, ICacheSetOptions, ICacheStats, ICounterOptions, IGetOrSetOptions, InvalidationMessage, IStoredEntry, IVersionedValue, LoggerContract} from "./types.js";
 
 
 export interface ICacheProvider<T = any> {
@@ -7,12 +7,40 @@ export interface ICacheProvider<T = any> {
   readonly logger: LoggerContract | Console;
 
   generateKey(cachekeypart: Partial<CacheKeyParts>): string
+
+  // Namespace versions: bumpVersion() orphans every key of a namespace in O(1). Reading a
+  // version rejects (NAMESPACE_VERSION_UNAVAILABLE) when a shared backend cannot be reached
+  versionedKey(parts: CacheKeyParts): Promise<string>;
+  getNamespaceVersion(namespace: string): Promise<number>;
+  bumpVersion(namespace: string): Promise<number>;
   // Core operations
   get(key: string): Promise<T | undefined>;
-  set(key: string, value: T, ttl?: number): Promise<void>;
+  set(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<void>;
   delete(key: string): Promise<boolean>;
   has(key: string): Promise<boolean>;
 
+  // Entry metadata and expiry control (ttl in ms, 0 = never expires). Reading
+  // metadata does not count as a hit; entries past their soft expiry are not extended
+  getWithMeta(key: string): Promise<ICacheEntryMeta<T> | undefined>;
+  // The stored entry even past its soft expiry, without counting a hit (lets TieredCache serve stale values)
+  peekEntry?(key: string): Promise<IStoredEntry<T> | undefined>;
+  touch(key: string, ttl?: number): Promise<boolean>;    // expire() with the cache's default ttl
+  expire(key: string, ttl: number): Promise<boolean>;
+  persist(key: string): Promise<boolean>;
+
+  // Batch operations (results are in the order of the given keys)
+  mget(keys: string[]): Promise<Array<T | undefined>>;
+  mset(entries: Iterable<readonly [string, T]>, ttl?: number | ICacheSetOptions): Promise<void>;
+  mdelete(keys: string[]): Promise<number>;
+
+  // Counters (atomic on MemoryCache and RedisCache); resolve with the new value
+  increment(key: string, by?: number, options?: ICounterOptions): Promise<number>;
+  decrement(key: string, by?: number, options?: ICounterOptions): Promise<number>;
+
+  // Read-through loading (concurrent callers for the same key share one loader)
+  getOrSet(key: string, loader: CacheLoader<T>, options?: IGetOrSetOptions): Promise<T>;
+  wrap(parts: CacheKeyParts, loader: CacheLoader<T>, options?: IGetOrSetOptions): Promise<T>;
+
   getKeys(pattern: string): Promise<string[]>;
 
   clear(): Promise<void>;
@@ -21,6 +49,24 @@ export interface ICacheProvider<T = any> {
   deleteByPrefix(prefix: string): Promise<void>
   deleteByPattern(pattern: string): Promise<void>;
 
+  // Tag-based invalidation (tags are attached through set options)
+  invalidateTags(tags: string[]): Promise<void>;
+
+  // Lock primitives behind CacheLock (RedisCache, MemoryCache); release and extend only act for the owning token
+  acquireLock?(key: string, token: string, ttl: number): Promise<boolean>;
+  releaseLock?(key: string, token: string): Promise<boolean>;
+  extendLock?(key: string, token: string, ttl: number): Promise<boolean>;
+
+  // Optimistic concurrency (RedisCache, MemoryCache): the conditional writes resolve
+  // false when the entry changed, or already exists, since it was read
+  getVersioned?(key: string): Promise<IVersionedValue<T> | undefined>;
+  setIfVersion?(key: string, value: T, version: string, ttl?: number | ICacheSetOptions): Promise<boolean>;
+  setIfAbsent?(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<boolean>;
+
+  // Bulk export/import (entries keep their remaining TTL; expired ones are skipped)
+  exportEntries?(pattern?: string): AsyncIterable<ICacheExportEntry<T>>;
+  importEntries(entries: CacheEntrySource<T>): Promise<number>;
+
   // Configuration
   getOptions(): ICacheOptions;
   setOptions(options: Partial<ICacheOptions>): void;
@@ -29,8 +75,47 @@ export interface ICacheProvider<T = any> {
   getStats(): Promise<ICacheStats>;
   size(): Promise<number>;
 
+  // Lifecycle events (hit, miss, set, delete, evict, expire, error)
+  on<E extends CacheEventName>(event: E, listener: CacheEventListener<T, E>): this;
+  once<E extends CacheEventName>(event: E, listener: CacheEventListener<T, E>): this;
+  off<E extends CacheEventName>(event: E, listener: CacheEventListener<T, E>): this;
+
   // Resource cleanup (optional for backward compatibility)
   disconnect?(): Promise<void>;
   dispose?(): Promise<void>;
+  close?(): Promise<void>;  // Releases connections, leaving the stored entries in place
+}
+
+
+/**
+ * Transport for cross-instance invalidation messages (Redis pub/sub, in-process, ...).
+ * Subscribers filter out their own messages by `source`.
+ */
+export interface IInvalidationBus {
+  publish(message: InvalidationMessage): Promise<void>;
+  subscribe(handler: (message: InvalidationMessage) => void): () => void;
+  close(): Promise<void>;
+}
+
+/**
+ * Turns cached values into bytes for remote backends (and for MemoryCache in clone mode).
+ * `deserialize` receives a Buffer when read from Redis, whatever `serialize` returned.
+ */
+export interface ICacheSerializer {
+  readonly name: string;
+  serialize(value: unknown): string | Buffer;
+  deserialize(data: string | Buffer): unknown;
 }
 
+/**
+ * The parts of an OpenTelemetry `Meter` used by CacheMetrics, so that
+ * `@opentelemetry/api` stays an optional peer of the caller.
+ */
+export interface IMetricsMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): {
+    add(value: number, attributes?: Record<string, string>): void;
+  };
+  createHistogram(name: string, options?: { description?: string; unit?: string }): {
+    record(value: number, attributes?: Record<string, string>): void;
+  };
+}
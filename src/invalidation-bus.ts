@@ -0,0 +1,138 @@
+import type { IInvalidationBus } from './interface.js';
+import type { InvalidationMessage, IRedisConnectionOptions, LoggerContract, RedisConnection } from './types.js';
+import { createRedisClient } from './redis.client.js';
+
+type InvalidationHandler = (message: InvalidationMessage) => void;
+
+/**
+ * InMemoryInvalidationBus
+ *
+ * In-process bus: every subscriber receives every message synchronously.
+ * Useful for tests and for several caches inside one process.
+ */
+export class InMemoryInvalidationBus implements IInvalidationBus {
+  private readonly handlers = new Set<InvalidationHandler>();
+
+  async publish(message: InvalidationMessage): Promise<void> {
+    for (const handler of Array.from(this.handlers)) {
+      handler(message);
+    }
+  }
+
+  subscribe(handler: InvalidationHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
+
+export interface IRedisInvalidationBusOptions {
+  channel?: string;             // Default "cachejs:invalidation"
+  logger?: LoggerContract | Console;
+  closeClient?: boolean;        // Also quit the publishing client on close()
+  connection?: IRedisConnectionOptions;  // For createRedisInvalidationBus (default: REDIS_URL)
+}
+
+/**
+ * RedisInvalidationBus
+ *
+ * Publishes on the given client and listens on a duplicated connection,
+ * since a subscribed ioredis connection cannot run other commands.
+ */
+export class RedisInvalidationBus implements IInvalidationBus {
+  private readonly subscriber: RedisConnection;
+  private readonly handlers = new Set<InvalidationHandler>();
+  private readonly channel: string;
+  private readonly logger: LoggerContract | Console;
+  private readonly closeClient: boolean;
+  private listening?: Promise<void>;
+
+  constructor(private readonly publisher: RedisConnection, options: IRedisInvalidationBusOptions = {}) {
+    this.channel = options.channel ?? 'cachejs:invalidation';
+    this.logger = options.logger ?? console;
+    this.closeClient = options.closeClient ?? false;
+
+    this.subscriber = publisher.duplicate();
+    this.subscriber.on('message', (channel: string, payload: string) => {
+      if (channel !== this.channel) return;
+      this.dispatch(payload);
+    });
+  }
+
+  async publish(message: InvalidationMessage): Promise<void> {
+    await this.publisher.publish(this.channel, JSON.stringify(message));
+  }
+
+  subscribe(handler: InvalidationHandler): () => void {
+    this.handlers.add(handler);
+    this.listening ??= this.listen();
+
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+
+    for (const client of this.closeClient ? [this.subscriber, this.publisher] : [this.subscriber]) {
+      try {
+        await client.quit();
+      } catch (err) {
+        this.logger.warn?.('Error closing invalidation bus connection', { error: err });
+        client.disconnect();
+      }
+    }
+  }
+
+  private async listen(): Promise<void> {
+    try {
+      if (this.subscriber.status === 'wait') {
+        await this.subscriber.connect();
+      }
+      await this.subscriber.subscribe(this.channel);
+    } catch (err) {
+      this.logger.error(`Invalidation bus failed to subscribe to "${this.channel}"`, { err });
+    }
+  }
+
+  private dispatch(payload: string): void {
+    let message: InvalidationMessage;
+
+    try {
+      message = JSON.parse(payload) as InvalidationMessage;
+    } catch (err) {
+      this.logger.warn(`Invalidation bus ignored malformed message`, { err });
+      return;
+    }
+
+    for (const handler of Array.from(this.handlers)) {
+      try {
+        handler(message);
+      } catch (err) {
+        this.logger.error('Invalidation handler failed', { err });
+      }
+    }
+  }
+}
+
+/**
+ * Creates a RedisInvalidationBus on a dedicated client from createRedisClient.
+ * Returns null when neither `connection` nor REDIS_URL is set.
+ */
+export async function createRedisInvalidationBus(
+  options: Omit<IRedisInvalidationBusOptions, 'closeClient'> = {}
+): Promise<RedisInvalidationBus | null> {
+  const client = await createRedisClient(options.logger, options.connection);
+  if (!client) {
+    return null;
+  }
+
+  await client.connect();
+  return new RedisInvalidationBus(client, { ...options, closeClient: true });
+}
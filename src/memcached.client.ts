@@ -0,0 +1,300 @@
+import { Socket, connect } from 'net';
+import type { LoggerContract } from './types.js';
+import { CacheError } from './cacheError.js';
+
+const CRLF = '\r\n';
+
+// Parses one response from the start of the buffer; undefined means "need more data"
+type ResponseParser<R> = (buffer: Buffer) => { result: R; consumed: number } | undefined;
+
+interface IPendingRequest {
+  parse: ResponseParser<any>;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+export interface IMemcachedValue {
+  value: Buffer;
+  cas: string;
+}
+
+export interface IMemcachedClientOptions {
+  host?: string;                // Default "127.0.0.1"
+  port?: number;                // Default 11211
+  timeout?: number;             // Connect and per-request timeout in ms (default 1000)
+  logger?: LoggerContract | Console;
+}
+
+/**
+ * MemcachedClient
+ *
+ * Minimal Memcached text-protocol client over a single `node:net` socket.
+ * Requests are pipelined and answered in order. The connection is opened on
+ * first use and re-opened after it drops.
+ */
+export class MemcachedClient {
+  private socket?: Socket;
+  private connecting?: Promise<Socket>;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: IPendingRequest[] = [];
+  private readonly host: string;
+  private readonly port: number;
+  private readonly timeout: number;
+  private readonly logger: LoggerContract | Console;
+
+  constructor(options: IMemcachedClientOptions = {}) {
+    this.host = options.host ?? '127.0.0.1';
+    this.port = options.port ?? 11211;
+    this.timeout = options.timeout ?? 1000;
+    this.logger = options.logger ?? console;
+  }
+
+  async connect(): Promise<void> {
+    await this.ensureConnected();
+  }
+
+  /** Values found among `keys`, with their CAS tokens. */
+  async gets(keys: string[]): Promise<Map<string, IMemcachedValue>> {
+    if (keys.length === 0) return new Map();
+    return this.request(`gets ${keys.join(' ')}${CRLF}`, parseValues);
+  }
+
+  async get(keys: string[]): Promise<Map<string, Buffer>> {
+    const values = await this.gets(keys);
+    return new Map(Array.from(values, ([key, { value }]) => [key, value]));
+  }
+
+  async set(key: string, value: Buffer, exptime: number): Promise<boolean> {
+    return this.store('set', key, value, exptime);
+  }
+
+  /** Stores only if the key does not exist. */
+  async add(key: string, value: Buffer, exptime: number): Promise<boolean> {
+    return this.store('add', key, value, exptime);
+  }
+
+  /** Stores only if the key is unchanged since `gets` returned `cas`. */
+  async cas(key: string, value: Buffer, exptime: number, cas: string): Promise<boolean> {
+    return this.store('cas', key, value, exptime, cas);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const reply = await this.request(`delete ${key}${CRLF}`, parseLine);
+    return reply === 'DELETED';
+  }
+
+  async touch(key: string, exptime: number): Promise<boolean> {
+    const reply = await this.request(`touch ${key} ${exptime}${CRLF}`, parseLine);
+    return reply === 'TOUCHED';
+  }
+
+  /** Returns the new value, or undefined when the key does not exist. */
+  async incr(key: string, by = 1): Promise<number | undefined> {
+    const reply = await this.request(`incr ${key} ${by}${CRLF}`, parseLine);
+    return reply === 'NOT_FOUND' ? undefined : Number(reply);
+  }
+
+  async decr(key: string, by = 1): Promise<number | undefined> {
+    const reply = await this.request(`decr ${key} ${by}${CRLF}`, parseLine);
+    return reply === 'NOT_FOUND' ? undefined : Number(reply);
+  }
+
+  async stats(): Promise<Record<string, string>> {
+    return this.request(`stats${CRLF}`, parseStats);
+  }
+
+  async quit(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = undefined;
+    await new Promise<void>(resolve => {
+      socket.once('close', () => resolve());
+      socket.end(`quit${CRLF}`);
+    });
+  }
+
+  disconnect(): void {
+    this.socket?.destroy();
+    this.socket = undefined;
+  }
+
+  private async store(
+    command: 'set' | 'add' | 'cas',
+    key: string,
+    value: Buffer,
+    exptime: number,
+    cas?: string
+  ): Promise<boolean> {
+    const header = `${command} ${key} 0 ${exptime} ${value.length}${cas ? ` ${cas}` : ''}${CRLF}`;
+    const reply = await this.request(Buffer.concat([Buffer.from(header), value, Buffer.from(CRLF)]), parseLine);
+    return reply === 'STORED';
+  }
+
+  private async request<R>(payload: string | Buffer, parse: ResponseParser<R>): Promise<R> {
+    const socket = await this.ensureConnected();
+
+    return new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // The stream can't be resynchronised once a reply is skipped
+        this.fail(new CacheError(`Memcached request timed out after ${this.timeout}ms`, 'MEMCACHED_TIMEOUT'));
+        socket.destroy();
+      }, this.timeout);
+
+      this.pending.push({
+        parse,
+        resolve: result => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        reject: err => {
+          clearTimeout(timer);
+          reject(err);
+        }
+      });
+
+      socket.write(payload);
+    });
+  }
+
+  private ensureConnected(): Promise<Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+
+    this.connecting ??= new Promise<Socket>((resolve, reject) => {
+      const socket = connect({ host: this.host, port: this.port });
+      socket.setNoDelay(true);
+      socket.setTimeout(this.timeout, () => {
+        socket.destroy(new CacheError(`Memcached connection to ${this.host}:${this.port} timed out`, 'MEMCACHED_TIMEOUT'));
+      });
+
+      socket.once('connect', () => {
+        socket.setTimeout(0);
+        this.socket = socket;
+        this.buffer = Buffer.alloc(0);
+        resolve(socket);
+      });
+
+      socket.on('data', (chunk: Buffer) => this.onData(chunk));
+
+      socket.on('error', err => {
+        this.logger.warn?.('Memcached connection error', { error: err.message });
+        reject(err);
+      });
+
+      socket.on('close', () => {
+        if (this.socket === socket) this.socket = undefined;
+        this.fail(new CacheError('Memcached connection closed', 'MEMCACHED_CONNECTION_CLOSED'));
+      });
+    }).finally(() => {
+      this.connecting = undefined;
+    });
+
+    return this.connecting;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (this.pending.length > 0) {
+      const request = this.pending[0]!;
+      let parsed: { result: unknown; consumed: number } | undefined;
+
+      try {
+        parsed = request.parse(this.buffer);
+      } catch (err: any) {
+        // Server error replies are a single line
+        const end = this.buffer.indexOf(CRLF);
+        this.buffer = this.buffer.subarray(end + CRLF.length);
+        this.pending.shift();
+        request.reject(err);
+        continue;
+      }
+
+      if (!parsed) return;
+
+      this.buffer = this.buffer.subarray(parsed.consumed);
+      this.pending.shift();
+      request.resolve(parsed.result);
+    }
+  }
+
+  private fail(error: Error): void {
+    for (const request of this.pending.splice(0)) {
+      request.reject(error);
+    }
+    this.buffer = Buffer.alloc(0);
+  }
+}
+
+function readLine(buffer: Buffer, offset: number): { line: string; next: number } | undefined {
+  const end = buffer.indexOf(CRLF, offset);
+  if (end === -1) return undefined;
+
+  const line = buffer.toString('utf8', offset, end);
+  if (line === 'ERROR' || line.startsWith('CLIENT_ERROR') || line.startsWith('SERVER_ERROR')) {
+    throw new CacheError(`Memcached error: ${line}`, 'MEMCACHED_ERROR');
+  }
+
+  return { line, next: end + CRLF.length };
+}
+
+const parseLine: ResponseParser<string> = buffer => {
+  const read = readLine(buffer, 0);
+  return read && { result: read.line, consumed: read.next };
+};
+
+// VALUE <key> <flags> <bytes> <cas>\r\n<data>\r\n ... END\r\n
+const parseValues: ResponseParser<Map<string, IMemcachedValue>> = buffer => {
+  const values = new Map<string, IMemcachedValue>();
+  let offset = 0;
+
+  for (;;) {
+    const read = readLine(buffer, offset);
+    if (!read) return undefined;
+
+    if (read.line === 'END') return { result: values, consumed: read.next };
+
+    const [, key, , bytes, cas] = read.line.split(' ');
+    const end = read.next + Number(bytes);
+    if (buffer.length < end + CRLF.length) return undefined;
+
+    values.set(key!, { value: Buffer.from(buffer.subarray(read.next, end)), cas: cas ?? '' });
+    offset = end + CRLF.length;
+  }
+};
+
+// STAT <name> <value>\r\n ... END\r\n
+const parseStats: ResponseParser<Record<string, string>> = buffer => {
+  const stats: Record<string, string> = {};
+  let offset = 0;
+
+  for (;;) {
+    const read = readLine(buffer, offset);
+    if (!read) return undefined;
+
+    if (read.line === 'END') return { result: stats, consumed: read.next };
+
+    const [, name, ...value] = read.line.split(' ');
+    stats[name!] = value.join(' ');
+    offset = read.next;
+  }
+};
+
+/**
+ * Creates a MemcachedClient from MEMCACHED_URL ("memcached://host:port" or "host:port").
+ * Returns null when MEMCACHED_URL is not set.
+ */
+export async function createMemcachedClient(logger: LoggerContract | Console = console) {
+  const memcachedUrl = process.env["MEMCACHED_URL"];
+  if (!memcachedUrl) {
+    return null;
+  }
+
+  const url = new URL(memcachedUrl.includes('://') ? memcachedUrl : `memcached://${memcachedUrl}`);
+
+  return new MemcachedClient({
+    host: url.hostname || '127.0.0.1',
+    port: url.port ? Number(url.port) : 11211,
+    logger
+  });
+}
@@ -0,0 +1,193 @@
+import { performance } from 'perf_hooks';
+import type { ICacheProvider, IMetricsMeter } from './interface.js';
+import type { CacheEventName, ICacheEvents, ICacheMetricsOptions } from './types.js';
+
+type Labels = Record<string, string>;
+
+type CounterName = 'hits' | 'misses' | 'sets' | 'evictions' | 'expirations' | 'errors';
+
+const COUNTERS: Record<CounterName, { event: CacheEventName; help: string }> = {
+  hits: { event: 'hit', help: 'Cache hits' },
+  misses: { event: 'miss', help: 'Cache misses' },
+  sets: { event: 'set', help: 'Cache writes' },
+  evictions: { event: 'evict', help: 'Entries evicted for space' },
+  expirations: { event: 'expire', help: 'Entries expired by TTL' },
+  errors: { event: 'error', help: 'Failed cache operations' }
+};
+
+// Provider methods whose latency is recorded
+const TIMED_OPERATIONS = new Set<PropertyKey>([
+  'get', 'set', 'delete', 'has',
+  'mget', 'mset', 'mdelete',
+  'getOrSet', 'wrap',
+  'deleteByPrefix', 'deleteByPattern', 'invalidateTags', 'clear'
+]);
+
+const DEFAULT_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+
+interface IHistogramSeries {
+  labels: Labels;
+  counts: number[];             // Per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+/**
+ * CacheMetrics
+ *
+ * Counts cache events and times provider operations, labelled by backend and
+ * scope prefix. Renders Prometheus text exposition format and, when given an
+ * OpenTelemetry Meter, mirrors every measurement to it.
+ *
+ *   const metrics = new CacheMetrics();
+ *   const users = metrics.instrument(registry.getScoped({ options: { prefix: "users" } }));
+ *   app.get("/metrics", (_, res) => res.type("text/plain").send(metrics.toPrometheus()));
+ */
+export class CacheMetrics {
+  private readonly namespace: string;
+  private readonly buckets: number[];
+  private readonly counters = new Map<CounterName, Map<string, { labels: Labels; value: number }>>();
+  private readonly latency = new Map<string, IHistogramSeries>();
+  private readonly disposers: Array<() => void> = [];
+  private readonly otel?: {
+    counters: Record<CounterName, ReturnType<IMetricsMeter['createCounter']>>;
+    latency: ReturnType<IMetricsMeter['createHistogram']>;
+  };
+
+  constructor(options: ICacheMetricsOptions = {}) {
+    this.namespace = options.namespace ?? 'cachejs';
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+
+    if (options.meter) {
+      const meter = options.meter;
+      const counters = {} as Record<CounterName, ReturnType<IMetricsMeter['createCounter']>>;
+
+      for (const [name, { help }] of Object.entries(COUNTERS) as Array<[CounterName, { help: string }]>) {
+        counters[name] = meter.createCounter(`${this.namespace}.${name}`, { description: help });
+      }
+
+      this.otel = {
+        counters,
+        latency: meter.createHistogram(`${this.namespace}.operation.duration`, {
+          description: 'Cache operation latency',
+          unit: 's'
+        })
+      };
+    }
+  }
+
+  /**
+   * Starts counting the provider's events and returns a proxy of it that
+   * also records operation latency. Use the returned provider in place of
+   * the original one. The scope label defaults to the provider's prefix.
+   */
+  instrument<C extends ICacheProvider>(cache: C, options: { scope?: string } = {}): C {
+    const labels: Labels = {
+      backend: cache.backend,
+      scope: options.scope ?? cache.getOptions().prefix ?? ''
+    };
+
+    for (const [name, { event }] of Object.entries(COUNTERS) as Array<[CounterName, { event: CacheEventName }]>) {
+      const listener = (payload: ICacheEvents[CacheEventName]) => {
+        this.increment(name, 'operation' in payload ? { ...labels, operation: payload.operation } : labels);
+      };
+
+      cache.on(event, listener);
+      this.disposers.push(() => cache.off(event, listener));
+    }
+
+    return new Proxy(cache, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function' || !TIMED_OPERATIONS.has(property)) return value;
+
+        return (...args: unknown[]) => {
+          const start = performance.now();
+          const result = Promise.resolve(value.apply(target, args));
+          const record = () => this.observe({ ...labels, operation: String(property) }, (performance.now() - start) / 1000);
+
+          return result.finally(record);
+        };
+      }
+    });
+  }
+
+  /** Stops listening to every instrumented provider. Collected values are kept. */
+  dispose(): void {
+    for (const dispose of this.disposers.splice(0)) dispose();
+  }
+
+  reset(): void {
+    this.counters.clear();
+    this.latency.clear();
+  }
+
+  private increment(name: CounterName, labels: Labels): void {
+    let series = this.counters.get(name);
+    if (!series) this.counters.set(name, series = new Map());
+
+    const key = labelKey(labels);
+    const current = series.get(key);
+    if (current) current.value++;
+    else series.set(key, { labels, value: 1 });
+
+    this.otel?.counters[name].add(1, labels);
+  }
+
+  private observe(labels: Labels, seconds: number): void {
+    const key = labelKey(labels);
+    let series = this.latency.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.latency.set(key, series);
+    }
+
+    const bucket = this.buckets.findIndex(le => seconds <= le);
+    if (bucket !== -1) series.counts[bucket]!++;
+    series.sum += seconds;
+    series.count++;
+
+    this.otel?.latency.record(seconds, labels);
+  }
+
+  /** Prometheus text exposition format (version 0.0.4). */
+  toPrometheus(): string {
+    const lines: string[] = [];
+
+    for (const [name, { help }] of Object.entries(COUNTERS) as Array<[CounterName, { help: string }]>) {
+      const metric = `${this.namespace}_${name}_total`;
+      lines.push(`# HELP ${metric} ${help}`, `# TYPE ${metric} counter`);
+
+      for (const { labels, value } of this.counters.get(name)?.values() ?? []) {
+        lines.push(`${metric}${formatLabels(labels)} ${value}`);
+      }
+    }
+
+    const metric = `${this.namespace}_operation_duration_seconds`;
+    lines.push(`# HELP ${metric} Cache operation latency`, `# TYPE ${metric} histogram`);
+
+    for (const { labels, counts, sum, count } of this.latency.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((le, i) => {
+        cumulative += counts[i]!;
+        lines.push(`${metric}_bucket${formatLabels({ ...labels, le: String(le) })} ${cumulative}`);
+      });
+      lines.push(`${metric}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${metric}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${metric}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(name => `${name}=${labels[name]}`).join(',');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
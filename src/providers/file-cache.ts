@@ -0,0 +1,473 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { createHash, randomUUID } from 'crypto';
+import {
+  BaseCache,
+  CacheError,
+  ICacheOptions,
+  ICacheEntry,
+  ICacheEntryMeta,
+  ICacheSetOptions,
+  IFileCacheOptions,
+  IStoredEntry
+} from '../index.js';
+import { PayloadCompressor } from '../compression.js';
+import { PayloadEncryptor } from '../encryption.js';
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+const HEADER_READ_SIZE = 4096;
+const NAMESPACE_VERSIONS_FILE = 'namespace-versions.json';
+
+// File header (one JSON line before the payload)
+interface IFileHeader {
+  key: string;                  // Full key
+  expiresAt: number;            // Epoch ms, 0 = never
+  staleAt?: number;             // Soft expiry of entries with a stale window
+  tags?: string[];
+}
+
+interface IIndexEntry extends IFileHeader {
+  file: string;
+  bytes: number;
+  accessedAt: number;
+}
+
+/**
+ * FileCache
+ *
+ * Persistent single-node backend. Each entry is one file, sharded into
+ * sub-directories by key hash, holding a JSON header line (key, expiry, tags)
+ * followed by the serialized entry. Writes go to a temp file that is renamed
+ * into place. An in-memory index is rebuilt from the headers on startup and
+ * drives getKeys, size and least-recently-used cleanup once the files exceed
+ * `maxBytes`. Namespace versions live in a separate file, out of reach of
+ * that cleanup. Only one process should use a directory at a time.
+ */
+export class FileCache<T = any> extends BaseCache<T> {
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private index = new Map<string, IIndexEntry>();
+  private persistedVersions = new Map<string, number>();  // Namespace versions by full namespace
+  private bytes = 0;
+  private readonly ready: Promise<void>;
+  private compressor = new PayloadCompressor();
+  private encryptor?: PayloadEncryptor;
+
+  constructor(fileOptions: IFileCacheOptions, options: ICacheOptions = {}) {
+    super("file", { ...options, maxSize: 0 });
+    this.directory = fileOptions.directory;
+    this.maxBytes = fileOptions.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.encryptor = this.createEncryptor();
+
+    this.ready = this.loadIndex();
+    // Surfaced again by the first operation that awaits it
+    this.ready.catch(() => {});
+  }
+
+  private createEncryptor(): PayloadEncryptor | undefined {
+    return this.options.encryption ? new PayloadEncryptor(this.options.encryption) : undefined;
+  }
+
+  protected override onOptionsChanged(oldOptions: ICacheOptions, newOptions: ICacheOptions): void {
+    if (newOptions.encryption !== oldOptions.encryption) {
+      this.encryptor = this.createEncryptor();
+    }
+  }
+
+  // Rebuilds the index from the entry headers; leftover temp files are removed
+  private async loadIndex(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.loadNamespaceVersions();
+    const now = Date.now();
+
+    for (const shard of await fs.readdir(this.directory)) {
+      const shardPath = join(this.directory, shard);
+      if (!(await fs.stat(shardPath)).isDirectory()) continue;
+
+      for (const name of await fs.readdir(shardPath)) {
+        const file = join(shardPath, name);
+
+        if (name.endsWith('.tmp')) {
+          await fs.rm(file, { force: true });
+          continue;
+        }
+
+        try {
+          const [header, stat] = await Promise.all([this.readHeader(file), fs.stat(file)]);
+
+          if (header.expiresAt !== 0 && header.expiresAt <= now) {
+            await fs.rm(file, { force: true });
+            continue;
+          }
+
+          this.index.set(header.key, { ...header, file, bytes: stat.size, accessedAt: stat.mtimeMs });
+          this.bytes += stat.size;
+        } catch (err) {
+          this.logger.warn(`FileCache skipped unreadable file ${file}`, { err });
+        }
+      }
+    }
+  }
+
+  private async loadNamespaceVersions(): Promise<void> {
+    try {
+      const data = await fs.readFile(join(this.directory, NAMESPACE_VERSIONS_FILE), 'utf8');
+      this.persistedVersions = new Map(Object.entries(JSON.parse(data) as Record<string, number>));
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') {
+        this.logger.warn(`FileCache could not read namespace versions: ${err?.message}`);
+      }
+    }
+  }
+
+  private async readHeader(file: string): Promise<IFileHeader> {
+    const handle = await fs.open(file, 'r');
+
+    try {
+      const chunk = Buffer.alloc(HEADER_READ_SIZE);
+      const { bytesRead } = await handle.read(chunk, 0, HEADER_READ_SIZE, 0);
+      let data = chunk.subarray(0, bytesRead);
+
+      // Headers of very long keys do not fit in the first chunk
+      if (data.indexOf(0x0a) === -1) data = await fs.readFile(file);
+
+      return this.parseHeader(data).header;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private parseHeader(data: Buffer): { header: IFileHeader; payload: Buffer } {
+    const newline = data.indexOf(0x0a);
+    if (newline === -1) {
+      throw new CacheError('Cache file has no header', 'INVALID_CACHE_FILE');
+    }
+
+    return {
+      header: JSON.parse(data.toString('utf8', 0, newline)) as IFileHeader,
+      payload: data.subarray(newline + 1)
+    };
+  }
+
+  private fileFor(fullKey: string): string {
+    const hash = createHash('sha256').update(fullKey).digest('hex');
+    return join(this.directory, hash.slice(0, 2), hash);
+  }
+
+  private isExpired(entry: IIndexEntry, now = Date.now()): boolean {
+    return entry.expiresAt !== 0 && entry.expiresAt <= now;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    if (!this.options.enabled) {
+      this.incrementMiss(key);
+      return undefined;
+    }
+
+    const entry = await this.getEntry(key);
+
+    if (!entry || !this.isFresh(entry)) {
+      this.incrementMiss(key);
+      return undefined;
+    }
+
+    this.incrementHit(key, entry.value);
+    return entry.value;
+  }
+
+  protected async getEntry(key: string): Promise<ICacheEntry<T> | undefined> {
+    try {
+      await this.ready;
+
+      const fullKey = this.buildKey(key);
+      const indexed = this.index.get(fullKey);
+      if (!indexed) return undefined;
+
+      if (this.isExpired(indexed)) {
+        await this.remove(indexed, 'expire');
+        return undefined;
+      }
+
+      let data: Buffer;
+      try {
+        data = await fs.readFile(indexed.file);
+      } catch (err: any) {
+        // Removed behind our back
+        if (err?.code !== 'ENOENT') throw err;
+        this.forget(indexed);
+        return undefined;
+      }
+
+      indexed.accessedAt = Date.now();
+      return await this.parseEntry(key, this.parseHeader(data).payload);
+    } catch (err) {
+      this.reportError('get', `FileCache get error for key ${key}`, err, key);
+      return undefined;
+    }
+  }
+
+  private async parseEntry(key: string, raw: Buffer): Promise<ICacheEntry<T> | undefined> {
+    if (this.encryptor || PayloadEncryptor.isEncrypted(raw)) {
+      try {
+        raw = this.decrypt(key, raw);
+      } catch (err) {
+        this.reportError('decrypt', `FileCache decryption error for key ${key}`, err, key);
+        return undefined;
+      }
+    }
+
+    const data = await this.compressor.decompress(raw);
+    return this.options.serializer.deserialize(data) as ICacheEntry<T>;
+  }
+
+  // serialize → compress → encrypt, as in RedisCache
+  private async serializeEntry(key: string, entry: ICacheEntry<T>): Promise<Buffer> {
+    const data = this.options.serializer.serialize(entry);
+    const compressed = await this.compressor.compress(data, this.options.compression);
+    const payload = this.encryptor ? this.encryptor.encrypt(compressed, this.buildKey(key)) : compressed;
+
+    return typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+  }
+
+  private decrypt(key: string, raw: Buffer): Buffer {
+    if (!this.encryptor) {
+      throw new CacheError('Entry is encrypted but no encryption keys are configured', 'DECRYPTION_FAILED');
+    }
+    return this.encryptor.decrypt(raw, this.buildKey(key));
+  }
+
+  async set(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<void> {
+    if (!this.options.enabled) return;
+
+    try {
+      await this.ready;
+
+      const { entry, ttl: finalTtl } = this.createEntry(value, this.toSetOptions(ttl));
+      await this.writeEntry(key, entry, finalTtl);
+
+      this.emit('set', { key, value, ttl: finalTtl });
+      await this.enforceBudget();
+    } catch (err) {
+      this.reportError('set', `FileCache set error for key ${key}`, err, key);
+    }
+  }
+
+  private async writeEntry(key: string, entry: ICacheEntry<T>, ttl: number): Promise<void> {
+    const fullKey = this.buildKey(key);
+    const file = this.fileFor(fullKey);
+
+    const header: IFileHeader = { key: fullKey, expiresAt: ttl > 0 ? Date.now() + ttl : 0 };
+    if (entry.staleAt !== undefined) header.staleAt = entry.staleAt;
+    if (entry.tags) header.tags = entry.tags;
+
+    const data = Buffer.concat([
+      Buffer.from(JSON.stringify(header) + '\n', 'utf8'),
+      await this.serializeEntry(key, entry)
+    ]);
+
+    // Atomic replace: readers see the old or the new file, never a partial one
+    const temp = `${file}.${randomUUID()}.tmp`;
+    await fs.mkdir(join(file, '..'), { recursive: true });
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, file);
+
+    const previous = this.index.get(fullKey);
+    if (previous) this.bytes -= previous.bytes;
+
+    this.index.set(fullKey, { ...header, file, bytes: data.length, accessedAt: Date.now() });
+    this.bytes += data.length;
+  }
+
+  // Expiry and size come from the index; reading the entry checks it is still there
+  async getWithMeta(key: string): Promise<ICacheEntryMeta<T> | undefined> {
+    const entry = await this.getEntry(key);
+    const indexed = this.index.get(this.buildKey(key));
+    if (!entry || !indexed) return undefined;
+
+    const now = Date.now();
+    return this.toEntryMeta(entry, indexed.expiresAt === 0 ? 0 : indexed.expiresAt - now, indexed.bytes, now);
+  }
+
+  async peekEntry(key: string): Promise<IStoredEntry<T> | undefined> {
+    const entry = await this.getEntry(key);
+    const indexed = this.index.get(this.buildKey(key));
+    if (!entry || !indexed) return undefined;
+
+    return { entry, ttl: indexed.expiresAt === 0 ? 0 : Math.max(1, indexed.expiresAt - Date.now()) };
+  }
+
+  // The expiry is part of the file header, so the entry is rewritten
+  async expire(key: string, ttl: number): Promise<boolean> {
+    const entry = await this.getEntry(key);
+    if (!entry || !this.isFresh(entry)) return false;
+
+    try {
+      const { entry: rescheduled, ttl: finalTtl } = this.rescheduleEntry(entry, ttl);
+      await this.writeEntry(key, rescheduled, finalTtl);
+      return true;
+    } catch (err) {
+      this.reportError('expire', `FileCache expire error for key ${key}`, err, key);
+      return false;
+    }
+  }
+
+  // Drops expired entries, then the least recently used ones down to 90% of maxBytes
+  private async enforceBudget(): Promise<void> {
+    if (this.maxBytes <= 0 || this.bytes <= this.maxBytes) return;
+
+    const now = Date.now();
+    for (const entry of Array.from(this.index.values())) {
+      if (this.isExpired(entry, now)) await this.remove(entry, 'expire');
+    }
+
+    const target = this.maxBytes * 0.9;
+    const byAge = Array.from(this.index.values()).sort((a, b) => a.accessedAt - b.accessedAt);
+
+    for (const entry of byAge) {
+      if (this.bytes <= target) break;
+      await this.remove(entry, 'evict');
+    }
+  }
+
+  private async remove(entry: IIndexEntry, reason: 'delete' | 'evict' | 'expire'): Promise<void> {
+    await fs.rm(entry.file, { force: true });
+    this.forget(entry);
+    this.emit(reason, { key: this.stripPrefix(entry.key) });
+  }
+
+  private forget(entry: IIndexEntry): void {
+    if (this.index.get(entry.key) !== entry) return;
+
+    this.index.delete(entry.key);
+    this.bytes -= entry.bytes;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await this.ready;
+
+      const entry = this.index.get(this.buildKey(key));
+      if (!entry) return false;
+
+      await this.remove(entry, 'delete');
+      return true;
+    } catch (err) {
+      this.reportError('delete', `FileCache delete error for key ${key}`, err, key);
+      return false;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    await this.ready;
+    const entry = this.index.get(this.buildKey(key));
+    return !!entry && !this.isExpired(entry) && this.isFresh(entry);
+  }
+
+  override async getNamespaceVersion(namespace: string): Promise<number> {
+    await this.ready.catch(() => {});
+    return this.persistedVersions.get(this.buildKey(namespace)) ?? 0;
+  }
+
+  override async bumpVersion(namespace: string): Promise<number> {
+    try {
+      await this.ready;
+
+      const fullNamespace = this.buildKey(namespace);
+      const version = (this.persistedVersions.get(fullNamespace) ?? 0) + 1;
+      this.persistedVersions.set(fullNamespace, version);
+
+      const file = join(this.directory, NAMESPACE_VERSIONS_FILE);
+      const temp = `${file}.${randomUUID()}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(Object.fromEntries(this.persistedVersions)));
+      await fs.rename(temp, file);
+
+      return version;
+    } catch (err) {
+      this.reportError('bumpVersion', `FileCache bumpVersion error for ${namespace}`, err);
+      return 0;
+    }
+  }
+
+  /** Full keys (prefix included) matching a `*` pattern within this cache's prefix. */
+  async getKeys(pattern: string): Promise<string[]> {
+    await this.ready;
+
+    const regex = new RegExp(
+      '^' +
+      this.buildKey(pattern)
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*') +
+      '$'
+    );
+
+    const now = Date.now();
+    return Array.from(this.index.values())
+      .filter(entry => !this.isExpired(entry, now) && regex.test(entry.key))
+      .map(entry => entry.key);
+  }
+
+  // getKeys returns full keys, so remove them directly rather than through delete()
+  override async deleteByPattern(pattern: string): Promise<void> {
+    for (const fullKey of await this.getKeys(pattern)) {
+      const entry = this.index.get(fullKey);
+      if (!entry) continue;
+
+      try {
+        await this.remove(entry, 'delete');
+      } catch (err: any) {
+        this.logger.warn(`Failed to delete key "${fullKey}" for pattern "${pattern}": ${err.message}`);
+      }
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    await this.ready;
+    const wanted = new Set(tags);
+
+    for (const entry of Array.from(this.index.values())) {
+      if (!entry.tags?.some(tag => wanted.has(tag))) continue;
+
+      try {
+        await this.remove(entry, 'delete');
+      } catch (err) {
+        this.reportError('invalidateTags', `FileCache invalidateTags error for key ${entry.key}`, err, entry.key);
+      }
+    }
+  }
+
+  async clearByPrefix(): Promise<void> {
+    await this.deleteByPattern('*');
+  }
+
+  async size(): Promise<number> {
+    return (await this.getKeys('*')).length;
+  }
+
+  override async getStats() {
+    const base = await super.getStats();
+    return {
+      ...base,
+      ttl: this.options.ttl,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      compression: this.compressor.getStats()
+    };
+  }
+
+  override async clear(): Promise<void> {
+    await super.clear();
+    this.compressor.reset();
+  }
+
+  // Entries are kept on disk: surviving restarts is the point of this backend
+  override async disconnect(): Promise<void> {
+    await this.ready.catch(() => {});
+    this.hits = 0;
+    this.misses = 0;
+    this.staleServed = 0;
+  }
+
+  override async dispose(): Promise<void> {
+    return this.disconnect();
+  }
+}
@@ -0,0 +1,493 @@
+import { createHash, randomBytes } from 'crypto';
+import {
+  BaseCache,
+  CacheError,
+  ICacheOptions,
+  ICacheEntry,
+  ICacheEntryMeta,
+  ICacheSetOptions,
+  IStoredEntry
+} from '../index.js';
+import { MemcachedClient } from '../memcached.client.js';
+import { PayloadCompressor } from '../compression.js';
+import { PayloadEncryptor } from '../encryption.js';
+
+const NAMESPACE_PREFIX = '__ns__:';
+const TAG_PREFIX = '__tag__:';
+const NAMESPACE_VERSION_PREFIX = '__nsv__:';
+const MAX_KEY_LENGTH = 250;
+const THIRTY_DAYS_SECONDS = 60 * 60 * 24 * 30;
+
+// Tag versions seen at write time; the entry is stale once any of them changes.
+// Memcached does not report expiries, so the entry records its own.
+interface IMemcachedEntry<T> extends ICacheEntry<T> {
+  tagVersions?: string[];
+  expiresAt?: number;           // Epoch ms, 0 = never; missing on entries written before it was recorded
+}
+
+// Memcached reads exptimes above 30 days as unix timestamps
+function toExptime(ttl: number): number {
+  if (ttl <= 0) return 0;
+
+  const seconds = Math.ceil(ttl / 1000);
+  return seconds > THIRTY_DAYS_SECONDS ? Math.floor(Date.now() / 1000) + seconds : seconds;
+}
+
+// Keys are limited to 250 bytes without whitespace or control characters
+function toMemcachedKey(key: string): string {
+  // eslint-disable-next-line no-control-regex
+  if (Buffer.byteLength(key) <= MAX_KEY_LENGTH && !/[\s\x00-\x1f\x7f]/.test(key)) {
+    return key;
+  }
+  return `sha256:${createHash('sha256').update(key).digest('hex')}`;
+}
+
+function newVersion(): string {
+  return `${Date.now().toString(36)}${randomBytes(3).toString('hex')}`;
+}
+
+// "user:42:profile" → ["", "user", "user:42"]
+function namespacesOf(key: string): string[] {
+  const namespaces = [''];
+
+  for (let i = key.indexOf(':'); i !== -1; i = key.indexOf(':', i + 1)) {
+    namespaces.push(key.slice(0, i));
+  }
+
+  return namespaces;
+}
+
+/**
+ * MemcachedCache
+ *
+ * Memcached backend speaking the text protocol (see MemcachedClient).
+ * Memcached cannot enumerate keys, so every key is stored under the versions
+ * of its namespaces (the ":"-separated segments before it). Prefix, pattern,
+ * tag and full clears replace a version, which orphans the old entries until
+ * Memcached evicts them. Prefixes are matched on segment boundaries:
+ * deleteByPrefix("user:4") removes "user:4" and "user:4:*", not "user:42".
+ */
+export class MemcachedCache<T = any> extends BaseCache<T> {
+  private client: MemcachedClient;
+  private compressor = new PayloadCompressor();
+  private encryptor?: PayloadEncryptor;
+
+  constructor(client: MemcachedClient, options: ICacheOptions = {}) {
+    super("memcached", { ...options, maxSize: 0 });
+    this.client = client;
+    this.encryptor = this.createEncryptor();
+  }
+
+  private createEncryptor(): PayloadEncryptor | undefined {
+    return this.options.encryption ? new PayloadEncryptor(this.options.encryption) : undefined;
+  }
+
+  protected override onOptionsChanged(oldOptions: ICacheOptions, newOptions: ICacheOptions): void {
+    if (newOptions.encryption !== oldOptions.encryption) {
+      this.encryptor = this.createEncryptor();
+    }
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    if (!this.options.enabled) {
+      this.incrementMiss(key);
+      return undefined;
+    }
+
+    const entry = await this.getEntry(key);
+
+    if (!entry || !this.isFresh(entry)) {
+      this.incrementMiss(key);
+      return undefined;
+    }
+
+    this.incrementHit(key, entry.value);
+    return entry.value;
+  }
+
+  protected async getEntry(key: string): Promise<ICacheEntry<T> | undefined> {
+    try {
+      const [entry] = await this.readEntries([key]);
+      return entry;
+    } catch (err) {
+      this.reportError('get', `Memcached get error for key ${key}`, err, key);
+      return undefined;
+    }
+  }
+
+  private async readEntries(keys: string[], storageKeys?: string[]): Promise<Array<IMemcachedEntry<T> | undefined>> {
+    storageKeys ??= await this.storageKeys(keys);
+    const raws = await this.client.get(Array.from(new Set(storageKeys)));
+
+    const entries = await Promise.all(
+      storageKeys.map((storageKey, i) => {
+        const raw = raws.get(storageKey);
+        return raw ? this.parseEntry(keys[i]!, raw) : undefined;
+      })
+    );
+
+    // Entries written before one of their tags was invalidated are misses
+    const tags = Array.from(new Set(entries.flatMap(entry => entry?.tags ?? [])));
+    if (tags.length === 0) return entries;
+
+    const current = await this.versions(tags.map(tag => this.tagKey(tag)));
+
+    return entries.map(entry => {
+      if (!entry?.tags) return entry;
+
+      const valid = entry.tags.every((tag, i) => current.get(this.tagKey(tag)) === entry.tagVersions?.[i]);
+      return valid ? entry : undefined;
+    });
+  }
+
+  private async parseEntry(key: string, raw: Buffer): Promise<IMemcachedEntry<T> | undefined> {
+    if (this.encryptor || PayloadEncryptor.isEncrypted(raw)) {
+      try {
+        raw = this.decrypt(key, raw);
+      } catch (err) {
+        this.reportError('decrypt', `Memcached decryption error for key ${key}`, err, key);
+        return undefined;
+      }
+    }
+
+    try {
+      const data = await this.compressor.decompress(raw);
+      return this.options.serializer.deserialize(data) as IMemcachedEntry<T>;
+    } catch (err) {
+      this.reportError('deserialize', `Memcached parse error for key ${key}`, err, key);
+      return undefined;
+    }
+  }
+
+  // serialize → compress → encrypt, as in RedisCache
+  private async serializeEntry(key: string, entry: IMemcachedEntry<T>): Promise<Buffer> {
+    const data = this.options.serializer.serialize(entry);
+    const compressed = await this.compressor.compress(data, this.options.compression);
+    const payload = this.encryptor ? this.encryptor.encrypt(compressed, this.buildKey(key)) : compressed;
+
+    return typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+  }
+
+  private decrypt(key: string, raw: Buffer): Buffer {
+    if (!this.encryptor) {
+      throw new CacheError('Entry is encrypted but no encryption keys are configured', 'DECRYPTION_FAILED');
+    }
+    return this.encryptor.decrypt(raw, this.buildKey(key));
+  }
+
+  async set(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<void> {
+    if (!this.options.enabled) return;
+
+    try {
+      await this.write([[key, value]], this.toSetOptions(ttl));
+    } catch (err) {
+      this.reportError('set', `Memcached set error for key ${key}`, err, key);
+    }
+  }
+
+  override async mset(entries: Iterable<readonly [string, T]>, ttl?: number | ICacheSetOptions): Promise<void> {
+    if (!this.options.enabled) return;
+
+    try {
+      await this.write(Array.from(entries), this.toSetOptions(ttl));
+    } catch (err) {
+      this.reportError('mset', 'Memcached mset error', err);
+    }
+  }
+
+  private async write(entries: Array<readonly [string, T]>, options: ICacheSetOptions): Promise<void> {
+    if (entries.length === 0) return;
+
+    const storageKeys = await this.storageKeys(entries.map(([key]) => key));
+    const tagVersions = options.tags?.length
+      ? await this.versions(options.tags.map(tag => this.tagKey(tag)))
+      : undefined;
+
+    await Promise.all(
+      entries.map(async ([key, value], i) => {
+        const { entry, ttl } = this.createEntry(value, options);
+        const stored: IMemcachedEntry<T> = entry;
+
+        if (tagVersions && entry.tags) {
+          stored.tagVersions = entry.tags.map(tag => tagVersions.get(this.tagKey(tag))!);
+        }
+
+        await this.writeEntry(storageKeys[i]!, key, stored, ttl);
+        this.emit('set', { key, value, ttl });
+      })
+    );
+  }
+
+  private async writeEntry(storageKey: string, key: string, entry: IMemcachedEntry<T>, ttl: number): Promise<void> {
+    entry.expiresAt = ttl > 0 ? Date.now() + ttl : 0;
+
+    const ok = await this.client.set(storageKey, await this.serializeEntry(key, entry), toExptime(ttl));
+    if (!ok) {
+      throw new CacheError(`Memcached did not store key ${key}`, 'MEMCACHED_NOT_STORED');
+    }
+  }
+
+  override async mget(keys: string[]): Promise<Array<T | undefined>> {
+    let entries: Array<ICacheEntry<T> | undefined> = keys.map(() => undefined);
+
+    if (this.options.enabled && keys.length > 0) {
+      try {
+        entries = await this.readEntries(keys);
+      } catch (err) {
+        this.reportError('mget', `Memcached mget error for ${keys.length} keys`, err);
+      }
+    }
+
+    return entries.map((entry, i) => {
+      if (!entry || !this.isFresh(entry)) {
+        this.incrementMiss(keys[i]!);
+        return undefined;
+      }
+
+      this.incrementHit(keys[i]!, entry.value);
+      return entry.value;
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const [storageKey] = await this.storageKeys([key]);
+      const deleted = await this.client.delete(storageKey!);
+
+      if (deleted) this.emit('delete', { key });
+      return deleted;
+    } catch (err) {
+      this.reportError('delete', `Memcached delete error for key ${key}`, err, key);
+      return false;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    const entry = await this.getEntry(key);
+    return !!entry && this.isFresh(entry);
+  }
+
+  // Size is the serialized entry before compression; the stored size is not kept
+  async getWithMeta(key: string): Promise<ICacheEntryMeta<T> | undefined> {
+    try {
+      const [entry] = await this.readEntries([key]);
+      if (!entry) return undefined;
+
+      const now = Date.now();
+      const hardTtl = entry.expiresAt ? entry.expiresAt - now : 0;
+      return this.toEntryMeta(entry, hardTtl, this.sizeOf(entry), now);
+    } catch (err) {
+      this.reportError('getWithMeta', `Memcached getWithMeta error for key ${key}`, err, key);
+      return undefined;
+    }
+  }
+
+  // Entries written before expiresAt was recorded report no expiry
+  async peekEntry(key: string): Promise<IStoredEntry<T> | undefined> {
+    try {
+      const [entry] = await this.readEntries([key]);
+      if (!entry) return undefined;
+
+      return { entry, ttl: entry.expiresAt ? Math.max(1, entry.expiresAt - Date.now()) : 0 };
+    } catch (err) {
+      this.reportError('peekEntry', `Memcached peekEntry error for key ${key}`, err, key);
+      return undefined;
+    }
+  }
+
+  /**
+   * Rewrites the entry with its new expiry, under the storage key it was read
+   * from: an entry invalidated in between stays orphaned.
+   */
+  async expire(key: string, ttl: number): Promise<boolean> {
+    try {
+      const storageKeys = await this.storageKeys([key]);
+      const [entry] = await this.readEntries([key], storageKeys);
+      if (!entry || !this.isFresh(entry)) return false;
+
+      const { entry: rescheduled, ttl: finalTtl } = this.rescheduleEntry(entry, ttl);
+      await this.writeEntry(storageKeys[0]!, key, rescheduled, finalTtl);
+      return true;
+    } catch (err) {
+      this.reportError('expire', `Memcached expire error for key ${key}`, err, key);
+      return false;
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    try {
+      await this.bumpVersions(tags.map(tag => this.tagKey(tag)));
+    } catch (err) {
+      this.reportError('invalidateTags', `Memcached invalidateTags error for tags ${tags.join(', ')}`, err);
+    }
+  }
+
+  override async deleteByPrefix(prefix: string): Promise<void> {
+    const namespace = prefix.endsWith(':') ? prefix.slice(0, -1) : prefix;
+
+    try {
+      await this.bumpVersions([this.namespaceKey(namespace)]);
+      if (namespace !== '') await this.delete(namespace);
+    } catch (err) {
+      this.reportError('deleteByPrefix', `Memcached deleteByPrefix error for prefix ${prefix}`, err);
+    }
+  }
+
+  /**
+   * Patterns without "*" delete one key. Otherwise the namespace holding the
+   * literal part before the first "*" is invalidated, which may remove more
+   * keys than the pattern matches (e.g. "user:4*" clears all of "user:*").
+   */
+  override async deleteByPattern(pattern: string): Promise<void> {
+    const wildcard = pattern.indexOf('*');
+
+    if (wildcard === -1) {
+      await this.delete(pattern);
+      return;
+    }
+
+    const literal = pattern.slice(0, wildcard);
+    const boundary = literal.lastIndexOf(':');
+
+    await this.deleteByPrefix(boundary === -1 ? '' : literal.slice(0, boundary));
+  }
+
+  async clearByPrefix(): Promise<void> {
+    await this.deleteByPrefix('');
+  }
+
+  // Memcached cannot list keys
+  async getKeys(_pattern: string): Promise<string[]> {
+    this.logger.debug?.('MemcachedCache cannot enumerate keys; getKeys() returns []');
+    return [];
+  }
+
+  /** Items stored on the whole server (Memcached has no per-prefix count). */
+  async size(): Promise<number> {
+    try {
+      const stats = await this.client.stats();
+      return Number(stats["curr_items"] ?? 0);
+    } catch (err) {
+      this.reportError('size', 'Memcached size error', err);
+      return 0;
+    }
+  }
+
+  override async getNamespaceVersion(namespace: string): Promise<number> {
+    try {
+      return await this.updateNamespaceVersion(namespace, 0);
+    } catch (err: any) {
+      this.reportError('getNamespaceVersion', `Memcached namespace version error for ${namespace}`, err);
+      // Version 0 would read, and let warmers fill, a keyspace that outlives the outage
+      throw new CacheError(`Namespace version of "${namespace}" is unavailable: ${err?.message}`, 'NAMESPACE_VERSION_UNAVAILABLE', 503);
+    }
+  }
+
+  override async bumpVersion(namespace: string): Promise<number> {
+    try {
+      return await this.updateNamespaceVersion(namespace, 1);
+    } catch (err) {
+      this.reportError('bumpVersion', `Memcached bumpVersion error for ${namespace}`, err);
+      return 0;
+    }
+  }
+
+  /**
+   * Missing versions (never set, or evicted) are seeded with the current time,
+   * so that a counter never comes back at a value it had before.
+   */
+  private async updateNamespaceVersion(namespace: string, increment: number): Promise<number> {
+    const versionKey = toMemcachedKey(this.buildKey(`${NAMESPACE_VERSION_PREFIX}${namespace}`));
+
+    const version = await this.client.incr(versionKey, increment);
+    if (version !== undefined) return version;
+
+    const seed = Date.now() + increment;
+    if (await this.client.add(versionKey, Buffer.from(String(seed)), 0)) return seed;
+
+    // Another instance seeded it first
+    return (await this.client.incr(versionKey, increment)) ?? seed;
+  }
+
+  private namespaceKey(namespace: string): string {
+    return toMemcachedKey(this.buildKey(`${NAMESPACE_PREFIX}${namespace}`));
+  }
+
+  private tagKey(tag: string): string {
+    return toMemcachedKey(this.buildKey(`${TAG_PREFIX}${tag}`));
+  }
+
+  // Storage key: the full key plus the current version of each of its namespaces
+  private async storageKeys(keys: string[]): Promise<string[]> {
+    const namespaces = keys.map(key => namespacesOf(key).map(ns => this.namespaceKey(ns)));
+    const versions = await this.versions(Array.from(new Set(namespaces.flat())));
+
+    return keys.map((key, i) => {
+      const tokens = namespaces[i]!.map(versionKey => versions.get(versionKey)!);
+      return toMemcachedKey(`${this.buildKey(key)}@${tokens.join('.')}`);
+    });
+  }
+
+  /**
+   * Current version tokens of the given version keys. Missing ones (never set,
+   * or evicted) get a fresh token, which also invalidates whatever they covered.
+   */
+  private async versions(versionKeys: string[]): Promise<Map<string, string>> {
+    const found = await this.client.get(versionKeys);
+    const versions = new Map(Array.from(found, ([key, value]) => [key, value.toString('utf8')]));
+    const missing = versionKeys.filter(key => !versions.has(key));
+
+    await Promise.all(
+      missing.map(async versionKey => {
+        const token = newVersion();
+        if (await this.client.add(versionKey, Buffer.from(token), 0)) {
+          versions.set(versionKey, token);
+          return;
+        }
+
+        // Another instance created it first
+        const [winner] = (await this.client.get([versionKey])).values();
+        versions.set(versionKey, winner?.toString('utf8') ?? token);
+      })
+    );
+
+    return versions;
+  }
+
+  private async bumpVersions(versionKeys: string[]): Promise<void> {
+    await Promise.all(versionKeys.map(key => this.client.set(key, Buffer.from(newVersion()), 0)));
+  }
+
+  override async getStats() {
+    const base = await super.getStats();
+    return {
+      ...base,
+      ttl: this.options.ttl,
+      compression: this.compressor.getStats()
+    };
+  }
+
+  override async clear(): Promise<void> {
+    await super.clear();
+    this.compressor.reset();
+  }
+
+  override async disconnect(): Promise<void> {
+    await super.disconnect(); // Clear namespace and reset stats
+    await this.close();
+  }
+
+  // Closes the connection and leaves the entries on the server
+  override async close(): Promise<void> {
+    try {
+      await this.client.quit();
+    } catch (err) {
+      this.logger.warn?.('Error closing Memcached connection', { error: err });
+      this.client.disconnect();
+    }
+  }
+
+  override async dispose(): Promise<void> {
+    return this.disconnect();
+  }
+}
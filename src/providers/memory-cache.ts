@@ -1,8 +1,29 @@
 import { LRUCache } from "lru-cache";
-import { BaseCache, ICacheOptions, ICacheEntry } from "../index.js";
+import { randomUUID } from "crypto";
+import {
+  BaseCache,
+  CacheError,
+  ICacheOptions,
+  ICacheEntry,
+  ICacheEntryMeta,
+  ICacheExportEntry,
+  ICacheSetOptions,
+  ICounterOptions,
+  IInvalidationBus,
+  InvalidationEvent,
+  InvalidationMessage,
+  IStoredEntry,
+  IVersionedValue
+} from "../index.js";
 
 export class MemoryCache<T = any> extends BaseCache<T> {
   private store: LRUCache<string, ICacheEntry<T>>;
+  private tagIndex = new Map<string, Set<string>>();
+  // CacheLock locks by full key, kept apart from the LRU so they are never evicted
+  private locks = new Map<string, { token: string; expiresAt: number }>();
+  // Stamped on every written entry, so a version is never reused for a key
+  private lastVersion = 0;
+  private invalidation?: { bus: IInvalidationBus; source: string; unsubscribe: () => void };
 
   constructor(options: ICacheOptions = {}) {
     super("memory", options);
@@ -22,57 +43,214 @@ export class MemoryCache<T = any> extends BaseCache<T> {
       ttlAutopurge: true,
       allowStale: false,
       noDisposeOnSet: true,
+      // Fires on delete, eviction and expiry; overwrites are handled in set()
+      dispose: (entry, key, reason) => {
+        this.untag(key, entry);
+        // Deferred so listeners never run inside lru-cache's own bookkeeping
+        queueMicrotask(() => this.emitRemoval(key, entry, reason));
+      },
     });
   }
 
+  private emitRemoval(fullKey: string, entry: ICacheEntry<T>, reason: LRUCache.DisposeReason): void {
+    const key = this.stripPrefix(fullKey);
+
+    switch (reason) {
+      case "delete":
+        this.emit("delete", { key });
+        break;
+      case "evict":
+        this.emit("evict", { key, value: entry.value });
+        break;
+      case "expire":
+        this.emit("expire", { key, value: entry.value });
+        break;
+    }
+  }
+
   async get(key: string): Promise<T | undefined> {
     if (!this.options.enabled) {
-      this.incrementMiss();
+      this.incrementMiss(key);
       return undefined;
     }
 
     const entry = this.store.get(this.buildKey(key));
 
-    if (!entry) {
-      this.incrementMiss();
+    if (!entry || !this.isFresh(entry)) {
+      this.incrementMiss(key);
       return undefined;
     }
 
-    this.incrementHit();
-    return entry.value;
+    const value = this.cloneValue(entry.value);
+    this.incrementHit(key, value);
+    return value;
+  }
+
+  protected async getEntry(key: string): Promise<ICacheEntry<T> | undefined> {
+    const entry = this.store.get(this.buildKey(key));
+    return entry && this.options.clone ? { ...entry, value: this.cloneValue(entry.value) } : entry;
   }
 
-  async set(key: string, value: T, ttl?: number): Promise<void> {
+  // In clone mode values go through the serializer, as they would through Redis
+  private cloneValue(value: T): T {
+    if (!this.options.clone) return value;
+
+    const { serializer } = this.options;
+    return serializer.deserialize(serializer.serialize(value)) as T;
+  }
+
+  async set(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<void> {
     if (!this.options.enabled) return;
 
-    const entry: ICacheEntry<T> = { value };
+    const { entry, ttl: storeTtl } = this.createEntry(this.cloneValue(value), this.toSetOptions(ttl));
+    const fullKey = this.buildKey(key);
+    entry.version = ++this.lastVersion;
+
+    const previous = this.store.peek(fullKey);
+    if (previous) this.untag(fullKey, previous);
+
+    this.store.set(fullKey, entry, { ttl: storeTtl });
+
+    for (const tag of entry.tags ?? []) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) this.tagIndex.set(tag, keys = new Set());
+      keys.add(fullKey);
+    }
+
+    this.emit("set", { key, value, ttl: storeTtl });
+  }
+
+  // Atomic: nothing is awaited between reading and writing the counter
+  override async increment(key: string, by = 1, options: ICounterOptions = {}): Promise<number> {
+    // Nothing is stored, so every call counts from 0
+    if (!this.options.enabled) return by;
 
     const fullKey = this.buildKey(key);
+    const previous = this.store.peek(fullKey);
+    const fresh = previous && this.isFresh(previous);
+    const current = fresh ? previous.value : 0;
 
-    if (ttl !== undefined) {
-      this.store.set(fullKey, entry, { ttl });
-    } else {
-      this.store.set(fullKey, entry);
+    if (typeof current !== "number") {
+      throw new CacheError(`Value of key "${key}" is not a counter`, "NOT_A_COUNTER", 400);
+    }
+
+    // A new counter gets the default ttl, as set() would give it
+    const remaining = fresh ? this.store.getRemainingTTL(fullKey) : this.options.ttl;
+    const ttl = options.ttl ?? (Number.isFinite(remaining) ? remaining : 0);
+    const value = current + by;
+
+    if (previous) this.untag(fullKey, previous);
+    this.store.set(fullKey, { value: value as T, createdAt: Date.now(), version: ++this.lastVersion }, { ttl });
+
+    this.emit("set", { key, value: value as T, ttl });
+    return value;
+  }
+
+  /**
+   * Entries within their stale window are returned as well: they still
+   * exist, so setIfAbsent() would not replace them.
+   */
+  async getVersioned(key: string): Promise<IVersionedValue<T> | undefined> {
+    const entry = this.store.peek(this.buildKey(key));
+    return entry && { value: this.cloneValue(entry.value), version: String(entry.version ?? 0) };
+  }
+
+  // Atomic: set() stores the entry before its first await
+  async setIfVersion(key: string, value: T, version: string, ttl?: number | ICacheSetOptions): Promise<boolean> {
+    const entry = this.store.peek(this.buildKey(key));
+    if (!this.options.enabled || !entry || String(entry.version ?? 0) !== version) return false;
+
+    await this.set(key, value, ttl);
+    return true;
+  }
+
+  async setIfAbsent(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<boolean> {
+    if (!this.options.enabled || this.store.peek(this.buildKey(key))) return false;
+
+    await this.set(key, value, ttl);
+    return true;
+  }
+
+  // Single-process locks for CacheLock; expired ones are dropped when next touched
+  async acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+    const held = this.locks.get(fullKey);
+    if (held && held.expiresAt > Date.now()) return false;
+
+    this.locks.set(fullKey, { token, expiresAt: Date.now() + ttl });
+    return true;
+  }
+
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+    const held = this.locks.get(fullKey);
+    if (!held || held.token !== token) return false;
+
+    this.locks.delete(fullKey);
+    return held.expiresAt > Date.now();
+  }
+
+  async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+    const held = this.locks.get(this.buildKey(key));
+    if (!held || held.token !== token || held.expiresAt <= Date.now()) return false;
+
+    held.expiresAt = Date.now() + ttl;
+    return true;
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    this.evictTags(tags);
+    this.publishInvalidation({ type: "tags", tags });
+  }
+
+  private evictTags(tags: string[]): void {
+    for (const tag of tags) {
+      for (const key of Array.from(this.tagIndex.get(tag) ?? [])) {
+        this.store.delete(key);
+      }
+      this.tagIndex.delete(tag);
+    }
+  }
+
+  private untag(key: string, entry: ICacheEntry<T>): void {
+    for (const tag of entry.tags ?? []) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.tagIndex.delete(tag);
     }
   }
 
   async delete(key: string): Promise<boolean> {
-    return this.store.delete(this.buildKey(key));
+    const fullKey = this.buildKey(key);
+    const deleted = this.store.delete(fullKey);
+    this.publishInvalidation({ type: "delete", key: fullKey });
+    return deleted;
   }
 
+  override async deleteByPrefix(prefix: string): Promise<void> {
+    const fullPrefix = this.buildKey(prefix);
+    this.evictPrefix(fullPrefix);
+    this.publishInvalidation({ type: "prefix", prefix: fullPrefix });
+  }
+
+  // Entries past their soft expiry are misses for get(), so they are not reported here either
   async has(key: string): Promise<boolean> {
-    return this.store.has(this.buildKey(key));
+    const entry = this.store.peek(this.buildKey(key));
+    return !!entry && this.isFresh(entry);
   }
 
-  async getKeys(pattern: string): Promise<string[]> {
-    const regex = new RegExp(
+  private patternToRegExp(pattern: string): RegExp {
+    return new RegExp(
       '^' +
       pattern
         .replace(/[.+?^${}()|[\]\\]/g, '\\$&') // escape regex chars
         .replace(/\*/g, '.*') +
       '$'
     );
+  }
 
+  async getKeys(pattern: string): Promise<string[]> {
+    const regex = this.patternToRegExp(pattern);
     const results: string[] = [];
 
     for (const key of this.store.keys()) {
@@ -84,9 +262,35 @@ export class MemoryCache<T = any> extends BaseCache<T> {
     return results;
   }
 
+  /**
+   * Yields this cache's fresh entries whose (unprefixed) key matches `pattern`.
+   * Keys are snapshotted first, so writes during the export are not visited.
+   */
+  async *exportEntries(pattern = '*'): AsyncIterable<ICacheExportEntry<T>> {
+    const regex = this.patternToRegExp(pattern);
+    const ownPrefix = this.buildKey('');
+
+    for (const fullKey of Array.from(this.store.keys())) {
+      if (!fullKey.startsWith(ownPrefix)) continue;
+
+      const key = this.stripPrefix(fullKey);
+      const entry = this.store.peek(fullKey);
+      if (!entry || !regex.test(key)) continue;
+
+      const remaining = this.store.getRemainingTTL(fullKey);
+      if (remaining <= 0) continue;
+
+      const exported = this.toExportEntry(key, entry, remaining === Infinity ? 0 : remaining);
+      if (exported) yield { ...exported, value: this.cloneValue(exported.value) };
+    }
+  }
+
   async clearByPrefix(): Promise<void> {
-    const prefix = this.buildKey(this.options.prefix);
+    this.evictPrefix(this.buildKey(this.options.prefix));
+    this.publishInvalidation({ type: "clear" });
+  }
 
+  private evictPrefix(prefix: string): void {
     const keysToDelete: string[] = [];
 
     for (const key of this.store.keys()) {
@@ -98,6 +302,54 @@ export class MemoryCache<T = any> extends BaseCache<T> {
     }
   }
 
+  /**
+   * Evicts keys locally when other instances publish delete, prefix-delete
+   * or clear events on the bus, and publishes this instance's own ones.
+   * Returns an unsubscribe function.
+   */
+  subscribeInvalidations(bus: IInvalidationBus): () => void {
+    this.unsubscribeInvalidations();
+
+    const source = randomUUID();
+    const unsubscribe = bus.subscribe(message => {
+      if (message.source !== source) this.applyInvalidation(message);
+    });
+
+    this.invalidation = { bus, source, unsubscribe };
+    return () => this.unsubscribeInvalidations();
+  }
+
+  unsubscribeInvalidations(): void {
+    this.invalidation?.unsubscribe();
+    this.invalidation = undefined;
+  }
+
+  private applyInvalidation(message: InvalidationMessage): void {
+    switch (message.type) {
+      case "delete":
+        this.store.delete(message.key);
+        break;
+      case "prefix":
+        this.evictPrefix(message.prefix);
+        break;
+      case "tags":
+        this.evictTags(message.tags);
+        break;
+      case "clear":
+        this.evictPrefix(this.buildKey(this.options.prefix));
+        break;
+    }
+  }
+
+  private publishInvalidation(event: InvalidationEvent): void {
+    if (!this.invalidation) return;
+
+    const { bus, source } = this.invalidation;
+    bus.publish({ ...event, source }).catch((err: any) => {
+      this.logger.warn(`Failed to publish invalidation "${event.type}": ${err?.message}`);
+    });
+  }
+
   async size(): Promise<number> {
     return this.store.size;
   }
@@ -146,7 +398,8 @@ export class MemoryCache<T = any> extends BaseCache<T> {
   }
 
   async peek(key: string): Promise<T | undefined> {
-    return this.store.peek(this.buildKey(key))?.value;
+    const entry = this.store.peek(this.buildKey(key));
+    return entry && this.cloneValue(entry.value);
   }
 
   async getRemainingTTL(key: string): Promise<number | undefined> {
@@ -154,6 +407,35 @@ export class MemoryCache<T = any> extends BaseCache<T> {
     return ttl && ttl > 0 ? ttl : undefined;
   }
 
+  async getWithMeta(key: string): Promise<ICacheEntryMeta<T> | undefined> {
+    const stored = await this.peekEntry(key);
+    return stored && this.toEntryMeta(stored.entry, stored.ttl, this.sizeOf(stored.entry.value));
+  }
+
+  async peekEntry(key: string): Promise<IStoredEntry<T> | undefined> {
+    const fullKey = this.buildKey(key);
+    const entry = this.store.peek(fullKey);
+    if (!entry) return undefined;
+
+    // lru-cache reports fractional ms, and Infinity for entries without a TTL
+    const remaining = this.store.getRemainingTTL(fullKey);
+    return {
+      entry: this.options.clone ? { ...entry, value: this.cloneValue(entry.value) } : entry,
+      ttl: remaining === Infinity ? 0 : Math.max(1, Math.round(remaining))
+    };
+  }
+
+  // Re-stores the entry with its new lru-cache TTL; a ttl of 0 removes the expiry
+  async expire(key: string, ttl: number): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+    const entry = this.store.peek(fullKey);
+    if (!entry || !this.isFresh(entry)) return false;
+
+    const { entry: rescheduled, ttl: storeTtl } = this.rescheduleEntry(entry, ttl);
+    this.store.set(fullKey, rescheduled, { ttl: storeTtl });
+    return true;
+  }
+
   override async getStats() {
     const base = await super.getStats();
     const lru = this.store as any;
@@ -170,8 +452,11 @@ export class MemoryCache<T = any> extends BaseCache<T> {
   }
 
   override async disconnect(): Promise<void> {
+    // Disposing this instance must not clear the other instances
+    this.unsubscribeInvalidations();
     await super.disconnect(); // Calls BaseCache.disconnect() which clears and resets stats
     this.store.clear();
+    this.locks.clear();
   }
 
   override async dispose(): Promise<void> {
@@ -1,180 +1,1069 @@
-import { Redis as RedisClient } from 'ioredis';
-import { BaseCache, ICacheOptions } from '../index.js';
-import { stringify } from 'safe-stable-stringify';
+import type { Cluster, Redis as RedisClient } from 'ioredis';
+import { createHash, randomUUID } from 'crypto';
+import {
+  BaseCache,
+  CacheError,
+  RedisConnection,
+  CircuitBreaker,
+  CircuitState,
+  ICacheOptions,
+  ICacheProvider,
+  IRedisCacheOptions,
+  isCircuitOpenError,
+  ICacheEntry,
+  ICacheEntryMeta,
+  ICacheExportEntry,
+  ICacheSetOptions,
+  ICounterOptions,
+  CacheLoader,
+  IGetOrSetOptions,
+  ILoaderLockOptions,
+  IStoredEntry,
+  IVersionedValue
+} from '../index.js';
+import { PayloadCompressor } from '../compression.js';
+import { PayloadEncryptor } from '../encryption.js';
+
+// Deletes the lock only if it is still owned by the caller's token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+else
+  return 0
+end`;
+
+// Renews the lock only if it is still owned by the caller's token
+const EXTEND_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+else
+  return 0
+end`;
+
+// Writes ARGV[2] (with a PX of ARGV[3] unless 0) only if the stored payload
+// still hashes to the version token ARGV[1]
+const SET_IF_VERSION_SCRIPT = `
+local current = redis.call("get", KEYS[1])
+if not current or redis.sha1hex(current) ~= ARGV[1] then
+  return 0
+end
+if tonumber(ARGV[3]) > 0 then
+  redis.call("set", KEYS[1], ARGV[2], "PX", ARGV[3])
+else
+  redis.call("set", KEYS[1], ARGV[2])
+end
+return 1`;
+
+// Adds ARGV[1] to a counter; one it creates expires after ARGV[2] ms
+const INCREMENT_SCRIPT = `
+local created = redis.call("exists", KEYS[1]) == 0
+local value = redis.call("incrby", KEYS[1], ARGV[1])
+if created then
+  redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return value`;
+
+// Adds a member to a tag's sorted set (scored by expiry), prunes expired members
+// and lets the set itself expire together with its longest-lived member
+const TAG_ADD_SCRIPT = `
+redis.call("zremrangebyscore", KEYS[1], "-inf", ARGV[3])
+if ARGV[2] == "+inf" then
+  redis.call("zadd", KEYS[1], "+inf", ARGV[1])
+  redis.call("persist", KEYS[1])
+else
+  redis.call("zadd", KEYS[1], ARGV[2], ARGV[1])
+  local top = redis.call("zrange", KEYS[1], -1, -1, "WITHSCORES")
+  if top[2] ~= "inf" then
+    redis.call("pexpireat", KEYS[1], top[2])
+  end
+end
+return 1`;
+
+// Seeds a missing namespace version with ARGV[1] (the current time, so that an
+// evicted counter never comes back at an old value), then adds ARGV[2]
+const NAMESPACE_VERSION_SCRIPT = `
+if redis.call("exists", KEYS[1]) == 0 then
+  redis.call("set", KEYS[1], ARGV[1])
+end
+return redis.call("incrby", KEYS[1], ARGV[2])`;
+
+const TAG_NAMESPACE = '__tag__:';
+const NAMESPACE_VERSION_NAMESPACE = '__nsv__:';
+const LOCK_NAMESPACE = '__lock__:';
+
+// Redis integers: up to 20 characters with the sign
+const COUNTER_PATTERN = /^-?\d+$/;
+const MAX_COUNTER_LENGTH = 20;
+
+// Marks a stored entry envelope and its format version
+const ENTRY_FORMAT_FIELD = '__entry__';
+const ENTRY_FORMAT = 1;
+
+// Values written before entries carried metadata (up to 1.1) are stored bare
+function toCacheEntry<T>(parsed: unknown): ICacheEntry<T> {
+  if (
+    parsed !== null &&
+    typeof parsed === 'object' &&
+    (parsed as Record<string, unknown>)[ENTRY_FORMAT_FIELD] === ENTRY_FORMAT
+  ) {
+    const { [ENTRY_FORMAT_FIELD]: _format, ...entry } = parsed as Record<string, unknown>;
+    return entry as unknown as ICacheEntry<T>;
+  }
+
+  return { value: parsed as T, createdAt: 0 };
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// A per-key command, as accepted by ioredis pipeline(commands)
+type KeyCommand = [command: 'set' | 'del' | 'pttl' | 'getBuffer', key: string, ...args: Array<string | number | Buffer>];
 
 export class RedisCache<T = any> extends BaseCache<T> {
-  private redis: RedisClient;
+  private redis: RedisConnection;
+  private compressor = new PayloadCompressor();
+  private encryptor?: PayloadEncryptor;
+  private keyspaceSubscribers: RedisClient[] = [];
+  private breaker?: CircuitBreaker;
+  private fallback?: ICacheProvider<T>;
 
-  constructor(redisClient: RedisClient, options: ICacheOptions = {}) {
-    super("redis", { ...options, maxSize: 0 });
+  constructor(redisClient: RedisConnection, options: IRedisCacheOptions = {}) {
+    const { circuitBreaker, ...cacheOptions } = options;
+    super("redis", { ...cacheOptions, maxSize: 0 });
     this.redis = redisClient;
+    this.encryptor = this.createEncryptor();
+
+    if (circuitBreaker) {
+      this.breaker = new CircuitBreaker(circuitBreaker, state => this.onCircuitStateChange(state));
+      this.fallback = circuitBreaker.fallback;
+    }
+  }
+
+  private onCircuitStateChange(state: CircuitState): void {
+    const target = this.fallback ? `serving from ${this.fallback.backend} fallback` : 'failing fast';
+
+    switch (state) {
+      case 'open':
+        this.logger.warn(`RedisCache circuit breaker opened, ${target}`);
+        break;
+      case 'half-open':
+        this.logger.info('RedisCache circuit breaker half-open, probing Redis');
+        break;
+      case 'closed':
+        this.logger.info('RedisCache circuit breaker closed, Redis recovered');
+        break;
+    }
+  }
+
+  // Every Redis round-trip goes through the breaker, when one is configured
+  private command<R>(run: () => Promise<R>): Promise<R> {
+    return this.breaker ? this.breaker.execute(run) : run();
+  }
+
+  // The provider answering while the breaker refuses calls
+  private activeFallback(): ICacheProvider<T> | undefined {
+    return this.fallback && this.breaker && !this.breaker.allowsRequest() ? this.fallback : undefined;
+  }
+
+  // Nodes holding keys: every master of a cluster, or the single server
+  private scanNodes(): RedisClient[] {
+    return this.redis.isCluster ? (this.redis as Cluster).nodes('master') : [this.redis as RedisClient];
+  }
+
+  /** SCANs every node for `pattern` (a full key pattern), yielding non-empty batches of full keys. */
+  private async *scanKeys(pattern: string): AsyncGenerator<string[]> {
+    for (const node of this.scanNodes()) {
+      let cursor = '0';
+
+      do {
+        const [nextCursor, batch] = await this.command(() => node.scan(cursor, 'MATCH', pattern, 'COUNT', 100));
+        cursor = nextCursor;
+
+        if (batch.length > 0) yield batch;
+      } while (cursor !== '0');
+    }
+  }
+
+  /**
+   * Runs one command per key in a single pipeline. A cluster pipeline cannot
+   * span hash slots, so there the commands are sent individually (ioredis
+   * still batches them per node). Results keep the pipeline's [error, result] shape.
+   */
+  private async execEach(commands: KeyCommand[]): Promise<Array<[Error | null, unknown]>> {
+    if (commands.length === 0) return [];
+
+    if (!this.redis.isCluster) {
+      return (await this.command(() => this.redis.pipeline(commands).exec())) ?? [];
+    }
+
+    const client = this.redis as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+    return Promise.all(
+      commands.map(([name, ...args]) =>
+        this.command(() => client[name]!.apply(this.redis, args)).then(
+          (result): [Error | null, unknown] => [null, result],
+          (err): [Error | null, unknown] => [err, null]
+        )
+      )
+    );
+  }
+
+  // DEL with several keys only works within one hash slot on a cluster
+  private async deleteKeys(fullKeys: string[]): Promise<number> {
+    if (fullKeys.length === 0) return 0;
+
+    if (!this.redis.isCluster) {
+      return this.command(() => this.redis.del(...fullKeys));
+    }
+
+    let deleted = 0;
+    for (const [err, count] of await this.execEach(fullKeys.map((key): KeyCommand => ['del', key]))) {
+      if (err) throw err;
+      deleted += count as number;
+    }
+    return deleted;
+  }
+
+  // Calls refused by an open breaker are expected: report them without logging each one
+  protected override reportError(operation: string, message: string, error: unknown, key?: string): void {
+    if (!isCircuitOpenError(error)) {
+      super.reportError(operation, message, error, key);
+      return;
+    }
+
+    this.emit('error', { operation, error, ...(key !== undefined ? { key } : {}) });
+  }
+
+  private createEncryptor(): PayloadEncryptor | undefined {
+    return this.options.encryption ? new PayloadEncryptor(this.options.encryption) : undefined;
+  }
+
+  protected override onOptionsChanged(oldOptions: ICacheOptions, newOptions: ICacheOptions): void {
+    if (newOptions.encryption !== oldOptions.encryption) {
+      this.encryptor = this.createEncryptor();
+    }
   }
 
   async get(key: string): Promise<T | undefined> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.get(key);
+
     if (!this.options.enabled) {
-      this.incrementMiss();
+      this.incrementMiss(key);
+      return undefined;
+    }
+
+    const entry = await this.getEntry(key);
+
+    if (!entry || !this.isFresh(entry)) {
+      this.incrementMiss(key);
       return undefined;
     }
 
+    this.incrementHit(key, entry.value);
+    return entry.value;
+  }
+
+  protected async getEntry(key: string): Promise<ICacheEntry<T> | undefined> {
     try {
-      const raw = await this.redis.get(this.buildKey(key));
+      const raw = await this.command(() => this.redis.getBuffer(this.buildKey(key)));
 
       if (raw === null) {
-        this.incrementMiss();
         return undefined;
       }
 
+      return await this.parseEntry(key, raw);
+
+    } catch (err) {
+      this.reportError('get', `Redis get error for key ${key}`, err, key);
+      return undefined;
+    }
+  }
+
+  private async parseEntry(key: string, raw: Buffer): Promise<ICacheEntry<T> | undefined> {
+    // Counters written by INCRBY are plain integers, whatever the serializer and encryption
+    if (raw.length <= MAX_COUNTER_LENGTH && COUNTER_PATTERN.test(raw.toString('latin1'))) {
+      return { value: Number(raw.toString('latin1')) as T, createdAt: 0 };
+    }
+
+    if (this.encryptor || PayloadEncryptor.isEncrypted(raw)) {
       try {
-        const parsed = JSON.parse(raw) as T;
-        this.incrementHit();
-        return parsed;
-      } catch (err:any) {
-        this.incrementMiss();
-        this.logger.error(`Redis parse error for key ${key}`, {err});
+        raw = this.decrypt(key, raw);
+      } catch (err: any) {
+        this.reportError('decrypt', `Redis decryption error for key ${key}`, err, key);
         return undefined;
       }
+    }
 
-    } catch (err) {
-      this.incrementMiss();
-      this.logger.error(`Redis get error for key ${key}`, {err});
+    try {
+      const data = await this.compressor.decompress(raw);
+      return toCacheEntry<T>(this.options.serializer.deserialize(data));
+    } catch (err:any) {
+      this.reportError('deserialize', `Redis parse error for key ${key}`, err, key);
       return undefined;
     }
   }
 
-  async set(key: string, value: T, ttl?: number): Promise<void> {
+  // serialize → compress → encrypt; reads run the steps in reverse
+  private async serializeEntry(key: string, entry: ICacheEntry<T>): Promise<string | Buffer> {
+    const data = this.options.serializer.serialize({ [ENTRY_FORMAT_FIELD]: ENTRY_FORMAT, ...entry });
+    const compressed = await this.compressor.compress(data, this.options.compression);
+
+    return this.encryptor
+      ? this.encryptor.encrypt(compressed, this.buildKey(key))
+      : compressed;
+  }
+
+  private decrypt(key: string, raw: Buffer): Buffer {
+    if (!this.encryptor) {
+      throw new CacheError('Entry is encrypted but no encryption keys are configured', 'DECRYPTION_FAILED');
+    }
+    return this.encryptor.decrypt(raw, this.buildKey(key));
+  }
+
+  async set(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<void> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.set(key, value, ttl);
+
     if (!this.options.enabled) return;
 
     try {
-      const serialized = stringify(value) || '';
-      const finalTtl = ttl ?? this.options.ttl;
+      const { entry, ttl: finalTtl } = this.createEntry(value, this.toSetOptions(ttl));
+      const serialized = await this.serializeEntry(key, entry);
+      const fullKey = this.buildKey(key);
 
       if (finalTtl > 0) {
-        await this.redis.set(this.buildKey(key), serialized, 'PX', finalTtl);
+        await this.command(() => this.redis.set(fullKey, serialized, 'PX', finalTtl));
       } else {
-        await this.redis.set(this.buildKey(key), serialized);
+        await this.command(() => this.redis.set(fullKey, serialized));
+      }
+
+      if (entry.tags) {
+        await this.addToTags(fullKey, entry.tags, finalTtl);
+      }
+
+      this.emit('set', { key, value, ttl: finalTtl });
+    } catch (err) {
+      this.reportError('set', `Redis set error for key ${key}`, err, key);
+    }
+  }
+
+  override async mget(keys: string[]): Promise<Array<T | undefined>> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.mget(keys);
+
+    const misses = () => keys.map(key => {
+      this.incrementMiss(key);
+      return undefined;
+    });
+
+    if (!this.options.enabled || keys.length === 0) {
+      return misses();
+    }
+
+    let raws: Array<Buffer | null>;
+    try {
+      const fullKeys = keys.map(key => this.buildKey(key));
+
+      if (this.redis.isCluster) {
+        raws = (await this.execEach(fullKeys.map((key): KeyCommand => ['getBuffer', key]))).map(([err, raw]) => {
+          if (err) throw err;
+          return raw as Buffer | null;
+        });
+      } else {
+        raws = await this.command(() => this.redis.mgetBuffer(...fullKeys));
+      }
+    } catch (err) {
+      this.reportError('mget', `Redis mget error for ${keys.length} keys`, err);
+      return misses();
+    }
+
+    const entries = await Promise.all(
+      raws.map((raw, i) => (raw === null ? undefined : this.parseEntry(keys[i]!, raw)))
+    );
+
+    return entries.map((entry, i) => {
+      if (!entry || !this.isFresh(entry)) {
+        this.incrementMiss(keys[i]!);
+        return undefined;
+      }
+
+      this.incrementHit(keys[i]!, entry.value);
+      return entry.value;
+    });
+  }
+
+  override async mset(entries: Iterable<readonly [string, T]>, ttl?: number | ICacheSetOptions): Promise<void> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.mset(entries, ttl);
+
+    if (!this.options.enabled) return;
+
+    const options = this.toSetOptions(ttl);
+    const tagged: Array<{ fullKey: string; tags: string[]; ttl: number }> = [];
+    const written: Array<{ key: string; value: T; ttl: number }> = [];
+
+    try {
+      const commands: KeyCommand[] = [];
+
+      for (const [key, value] of entries) {
+        const { entry, ttl: finalTtl } = this.createEntry(value, options);
+        const fullKey = this.buildKey(key);
+
+        const serialized = await this.serializeEntry(key, entry);
+
+        commands.push(finalTtl > 0 ? ['set', fullKey, serialized, 'PX', finalTtl] : ['set', fullKey, serialized]);
+
+        if (entry.tags) {
+          tagged.push({ fullKey, tags: entry.tags, ttl: finalTtl });
+        }
+        written.push({ key, value, ttl: finalTtl });
+      }
+
+      for (const [err] of await this.execEach(commands)) {
+        if (err) throw err;
+      }
+
+      await Promise.all(tagged.map(({ fullKey, tags, ttl }) => this.addToTags(fullKey, tags, ttl)));
+
+      for (const event of written) {
+        this.emit('set', event);
+      }
+    } catch (err) {
+      this.reportError('mset', 'Redis mset error', err);
+    }
+  }
+
+  override async mdelete(keys: string[]): Promise<number> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.mdelete(keys);
+
+    if (keys.length === 0) return 0;
+
+    try {
+      if (this.listenerCount('delete') === 0) {
+        return await this.deleteKeys(keys.map(key => this.buildKey(key)));
+      }
+
+      // One DEL per key to know which keys existed
+      const results = await this.execEach(keys.map((key): KeyCommand => ['del', this.buildKey(key)]));
+      let deleted = 0;
+
+      results.forEach(([err, count], i) => {
+        if (err) throw err;
+        if ((count as number) > 0) {
+          deleted++;
+          this.emit('delete', { key: keys[i]! });
+        }
+      });
+
+      return deleted;
+    } catch (err) {
+      this.reportError('mdelete', `Redis mdelete error for ${keys.length} keys`, err);
+      return 0;
+    }
+  }
+
+  private tagKey(tag: string): string {
+    return this.buildKey(`${TAG_NAMESPACE}${tag}`);
+  }
+
+  // Tag sets, namespace versions and locks, which are not cache entries
+  private isInternalKey(fullKey: string): boolean {
+    return fullKey.startsWith(this.buildKey(TAG_NAMESPACE)) ||
+      fullKey.startsWith(this.buildKey(NAMESPACE_VERSION_NAMESPACE)) ||
+      fullKey.startsWith(this.buildKey(LOCK_NAMESPACE));
+  }
+
+  private emitDeleted(fullKeys: string[]): void {
+    for (const fullKey of fullKeys) {
+      this.emit('delete', { key: this.stripPrefix(fullKey) });
+    }
+  }
+
+  private async addToTags(fullKey: string, tags: string[], ttl: number): Promise<void> {
+    const now = Date.now();
+    const expiresAt = ttl > 0 ? String(now + ttl) : '+inf';
+
+    await Promise.all(
+      tags.map(tag => this.command(() => this.redis.eval(TAG_ADD_SCRIPT, 1, this.tagKey(tag), fullKey, expiresAt, now)))
+    );
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.invalidateTags(tags);
+
+    try {
+      const now = Date.now();
+
+      for (const tag of tags) {
+        const tagKey = this.tagKey(tag);
+        const keys = await this.command(() => this.redis.zrangebyscore(tagKey, now, '+inf'));
+
+        if (keys.length > 0) {
+          await this.deleteKeys(keys);
+          this.emitDeleted(keys);
+        }
+        await this.command(() => this.redis.del(tagKey));
+      }
+    } catch (err) {
+      this.reportError('invalidateTags', `Redis invalidateTags error for tags ${tags.join(', ')}`, err);
+    }
+  }
+
+  /**
+   * INCRBY, with PEXPIRE (or PERSIST for a ttl of 0) in the same MULTI when a
+   * ttl is given; without one, INCREMENT_SCRIPT gives a counter it creates the
+   * default ttl. Counters are stored as plain integers, not cache entries;
+   * parseEntry() recognises them, so get() reads them with any serializer.
+   */
+  override async increment(key: string, by = 1, options: ICounterOptions = {}): Promise<number> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.increment(key, by, options);
+
+    if (!this.options.enabled) return by;
+
+    const fullKey = this.buildKey(key);
+    const { ttl } = options;
+
+    try {
+      let value: number;
+
+      if (ttl === undefined && this.options.ttl > 0) {
+        value = Number(await this.command(() => this.redis.eval(INCREMENT_SCRIPT, 1, fullKey, by, this.options.ttl)));
+      } else if (ttl === undefined) {
+        value = await this.command(() => this.redis.incrby(fullKey, by));
+      } else {
+        const transaction = this.redis.multi().incrby(fullKey, by);
+        if (ttl > 0) transaction.pexpire(fullKey, ttl);
+        else transaction.persist(fullKey);
+
+        const results = await this.command(() => transaction.exec());
+        const [err, result] = results?.[0] ?? [new Error('Redis transaction aborted')];
+        if (err) throw err;
+        value = Number(result);
+      }
+
+      this.emit('set', { key, value: value as T, ttl: ttl ?? 0 });
+      return value;
+    } catch (err) {
+      this.reportError('increment', `Redis increment error for key ${key}`, err, key);
+      throw err;
+    }
+  }
+
+  /**
+   * The version is the SHA-1 of the stored payload, which SET_IF_VERSION_SCRIPT
+   * recomputes with redis.sha1hex(). Entries within their stale window are
+   * returned as well. Like locks, the conditional operations have no fallback
+   * while the circuit is open, and rethrow Redis errors after reporting them.
+   */
+  async getVersioned(key: string): Promise<IVersionedValue<T> | undefined> {
+    try {
+      const raw = await this.command(() => this.redis.getBuffer(this.buildKey(key)));
+      const entry = raw && (await this.parseEntry(key, raw));
+      return entry ? { value: entry.value, version: createHash('sha1').update(raw).digest('hex') } : undefined;
+    } catch (err) {
+      this.reportError('getVersioned', `Redis getVersioned error for key ${key}`, err, key);
+      throw err;
+    }
+  }
+
+  async setIfVersion(key: string, value: T, version: string, ttl?: number | ICacheSetOptions): Promise<boolean> {
+    if (!this.options.enabled) return false;
+
+    return this.setConditionally('setIfVersion', key, value, ttl, async (fullKey, serialized, finalTtl) =>
+      (await this.command(() => this.redis.eval(SET_IF_VERSION_SCRIPT, 1, fullKey, version, serialized, finalTtl))) === 1
+    );
+  }
+
+  async setIfAbsent(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<boolean> {
+    if (!this.options.enabled) return false;
+
+    return this.setConditionally('setIfAbsent', key, value, ttl, async (fullKey, serialized, finalTtl) => {
+      const reply = finalTtl > 0
+        ? await this.command(() => this.redis.set(fullKey, serialized, 'PX', finalTtl, 'NX'))
+        : await this.command(() => this.redis.set(fullKey, serialized, 'NX'));
+      return reply === 'OK';
+    });
+  }
+
+  // Builds the entry as set() does, and adds tags and the "set" event once `write` succeeded
+  private async setConditionally(
+    operation: string,
+    key: string,
+    value: T,
+    ttl: number | ICacheSetOptions | undefined,
+    write: (fullKey: string, serialized: string | Buffer, ttl: number) => Promise<boolean>
+  ): Promise<boolean> {
+    try {
+      const { entry, ttl: finalTtl } = this.createEntry(value, this.toSetOptions(ttl));
+      const fullKey = this.buildKey(key);
+
+      if (!(await write(fullKey, await this.serializeEntry(key, entry), finalTtl))) return false;
+
+      if (entry.tags) {
+        await this.addToTags(fullKey, entry.tags, finalTtl);
       }
+
+      this.emit('set', { key, value, ttl: finalTtl });
+      return true;
     } catch (err) {
-      this.logger.error(`Redis set error for key ${key}`, {err});
+      this.reportError(operation, `Redis ${operation} error for key ${key}`, err, key);
+      throw err;
     }
   }
 
+  /**
+   * SET NX PX with the owner's token. Lock keys are shared with getOrSet's
+   * loader locks. There is no fallback while the circuit is open: a lock
+   * held in one process only would not exclude the others.
+   */
+  async acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+    try {
+      return (await this.command(() => this.redis.set(this.lockKey(key), token, 'PX', ttl, 'NX'))) === 'OK';
+    } catch (err) {
+      this.reportError('acquireLock', `Redis lock error for key ${key}`, err, key);
+      throw err;
+    }
+  }
+
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    try {
+      return (await this.command(() => this.redis.eval(RELEASE_LOCK_SCRIPT, 1, this.lockKey(key), token))) === 1;
+    } catch (err) {
+      this.reportError('releaseLock', `Redis lock release error for key ${key}`, err, key);
+      throw err;
+    }
+  }
+
+  async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+    try {
+      return (await this.command(() => this.redis.eval(EXTEND_LOCK_SCRIPT, 1, this.lockKey(key), token, ttl))) === 1;
+    } catch (err) {
+      this.reportError('extendLock', `Redis lock extend error for key ${key}`, err, key);
+      throw err;
+    }
+  }
+
+  private lockKey(key: string): string {
+    return this.buildKey(`${LOCK_NAMESPACE}${key}`);
+  }
+
+  override async getNamespaceVersion(namespace: string): Promise<number> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.getNamespaceVersion(namespace);
+
+    try {
+      // A plain GET on the read path; the counter is only seeded when it is missing
+      const version = await this.command(() => this.redis.get(this.namespaceVersionKey(namespace)));
+      return version === null ? await this.updateNamespaceVersion(namespace, 0) : Number(version);
+    } catch (err: any) {
+      this.reportError('getNamespaceVersion', `Redis namespace version error for ${namespace}`, err);
+      // Version 0 would read, and let warmers fill, a keyspace that outlives the outage
+      throw new CacheError(`Namespace version of "${namespace}" is unavailable: ${err?.message}`, 'NAMESPACE_VERSION_UNAVAILABLE', 503);
+    }
+  }
+
+  override async bumpVersion(namespace: string): Promise<number> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.bumpVersion(namespace);
+
+    try {
+      return await this.updateNamespaceVersion(namespace, 1);
+    } catch (err) {
+      this.reportError('bumpVersion', `Redis bumpVersion error for ${namespace}`, err);
+      return 0;
+    }
+  }
+
+  private namespaceVersionKey(namespace: string): string {
+    return this.buildKey(`${NAMESPACE_VERSION_NAMESPACE}${namespace}`);
+  }
+
+  private async updateNamespaceVersion(namespace: string, increment: number): Promise<number> {
+    const versionKey = this.namespaceVersionKey(namespace);
+    const version = await this.command(() =>
+      this.redis.eval(NAMESPACE_VERSION_SCRIPT, 1, versionKey, Date.now(), increment)
+    );
+    return Number(version);
+  }
+
+  override async getOrSet(key: string, loader: CacheLoader<T>, options: IGetOrSetOptions = {}): Promise<T> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.getOrSet(key, loader, options);
+
+    return super.getOrSet(key, loader, options);
+  }
+
+  protected override async runLoader(
+    key: string,
+    loader: CacheLoader<T>,
+    options: IGetOrSetOptions
+  ): Promise<T> {
+    if (!options.lock) {
+      return super.runLoader(key, loader, options);
+    }
+
+    const lockOptions: ILoaderLockOptions = options.lock === true ? {} : options.lock;
+    const lockTtl = lockOptions.ttl ?? 5_000;
+    const waitTimeout = lockOptions.waitTimeout ?? lockTtl;
+    const pollInterval = lockOptions.pollInterval ?? 50;
+
+    const lockKey = this.lockKey(key);
+    const token = randomUUID();
+
+    let acquired = false;
+    try {
+      acquired = (await this.command(() => this.redis.set(lockKey, token, 'PX', lockTtl, 'NX'))) === 'OK';
+    } catch (err) {
+      // Lock unavailable: degrade to in-process single-flight only
+      this.logger.warn(`Redis lock error for key ${key}`, {err});
+      return super.runLoader(key, loader, options);
+    }
+
+    if (acquired) {
+      try {
+        return await super.runLoader(key, loader, options);
+      } finally {
+        await this.command(() => this.redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token)).catch((err: unknown) => {
+          this.logger.warn(`Redis lock release error for key ${key}`, {err});
+        });
+      }
+    }
+
+    // Another instance is loading: wait for its value or for the lock to go away
+    const deadline = Date.now() + waitTimeout;
+    while (Date.now() < deadline) {
+      await sleep(pollInterval);
+
+      const locked = await this.command(() => this.redis.exists(lockKey)).catch(() => 0);
+      if (locked === 0) break;
+    }
+
+    // getOrSet() has already counted this lookup
+    const entry = await this.getEntry(key);
+    if (entry && this.isFresh(entry)) return entry.value;
+
+    return super.runLoader(key, loader, options);
+  }
+
   async getKeys(pattern: string): Promise<string[]> {
+  const fallback = this.activeFallback();
+  if (fallback) return fallback.getKeys(pattern);
+
   const redisPattern = this.buildKey('') + pattern.replace(/^\*/, '');
   const keys: string[] = [];
-  let cursor = '0';
 
   try {
-    do {
-      const [nextCursor, batch] = await this.redis.scan(
-        cursor,
-        'MATCH',
-        redisPattern,
-        'COUNT',
-        100
-      );
-
-      cursor = nextCursor;
-
+    for await (const batch of this.scanKeys(redisPattern)) {
       for (const key of batch) {
-        keys.push(key);
+        if (!this.isInternalKey(key)) keys.push(key);
       }
-
-    } while (cursor !== '0');
+    }
 
     return keys;
 
   } catch (err) {
-    this.logger.error('Redis getKeys error', {err});
+    this.reportError('getKeys', 'Redis getKeys error', err);
     return [];
   }
 }
 
+  /**
+   * Streams fresh entries matching `pattern` (unprefixed) using SCAN, then
+   * PTTL + GET per batch in one pipeline. Tag sets and loader locks are skipped.
+   * On a cluster every master is scanned.
+   */
+  async *exportEntries(pattern = '*'): AsyncIterable<ICacheExportEntry<T>> {
+    const fallback = this.activeFallback();
+    if (fallback?.exportEntries) {
+      yield* fallback.exportEntries(pattern);
+      return;
+    }
+
+    const batches = this.scanKeys(this.buildKey(pattern));
+
+    for (;;) {
+      let batch: string[];
+      let results: Array<[Error | null, unknown]>;
+
+      try {
+        const next = await batches.next();
+        if (next.done) return;
+
+        batch = next.value.filter(fullKey => !this.isInternalKey(fullKey));
+        results = await this.execEach(batch.flatMap((fullKey): KeyCommand[] => [['pttl', fullKey], ['getBuffer', fullKey]]));
+      } catch (err) {
+        this.reportError('exportEntries', `Redis export error for pattern ${pattern}`, err);
+        return;
+      }
+
+      const now = Date.now();
+
+      for (let i = 0; i < batch.length; i++) {
+        const [ttlErr, pttl] = results[i * 2] ?? [];
+        const [getErr, raw] = results[i * 2 + 1] ?? [];
+        const key = this.stripPrefix(batch[i]!);
+
+        if (ttlErr || getErr) {
+          this.reportError('exportEntries', `Redis export error for key ${key}`, ttlErr ?? getErr, key);
+          continue;
+        }
+
+        // -2: expired or deleted since SCAN; -1: no expiry
+        if (pttl === -2 || !Buffer.isBuffer(raw)) continue;
+
+        const entry = await this.parseEntry(key, raw);
+        const exported = entry && this.toExportEntry(key, entry, pttl === -1 ? 0 : Number(pttl), now);
+        if (exported) yield exported;
+      }
+    }
+  }
+
   async delete(key: string): Promise<boolean> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.delete(key);
+
     try {
-      const result = await this.redis.del(this.buildKey(key));
+      const result = await this.command(() => this.redis.del(this.buildKey(key)));
+
+      if (result > 0) this.emit('delete', { key });
       return result > 0;
     } catch (err) {
-      this.logger.error(`Redis delete error for key ${key}`, {err});
+      this.reportError('delete', `Redis delete error for key ${key}`, err, key);
       return false;
     }
   }
 
-  async has(key: string): Promise<boolean> {
+  // PTTL and GET in one pipeline; size is the stored (compressed, encrypted) payload
+  async getWithMeta(key: string): Promise<ICacheEntryMeta<T> | undefined> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.getWithMeta(key);
+
     try {
-      const result = await this.redis.exists(this.buildKey(key));
-      return result === 1;
+      const stored = await this.readStored(key);
+      return stored && this.toEntryMeta(stored.entry, stored.ttl, stored.bytes);
     } catch (err) {
-      this.logger.error(`Redis exists error for key ${key}`, {err});
-      return false;
+      this.reportError('getWithMeta', `Redis getWithMeta error for key ${key}`, err, key);
+      return undefined;
     }
   }
 
-  async clearByPrefix(): Promise<void> {
+  async peekEntry(key: string): Promise<IStoredEntry<T> | undefined> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.peekEntry?.(key);
+
     try {
-      const pattern = this.buildKey('') + '*';
-      let cursor = '0';
+      const stored = await this.readStored(key);
+      return stored && { entry: stored.entry, ttl: stored.ttl };
+    } catch (err) {
+      this.reportError('peekEntry', `Redis peekEntry error for key ${key}`, err, key);
+      return undefined;
+    }
+  }
 
-      do {
-        const [nextCursor, keys] = await this.redis.scan(
-          cursor,
-          'MATCH',
-          pattern,
-          'COUNT',
-          100
-        );
+  // The entry with its remaining TTL (PTTL) and stored size, in one round trip
+  private async readStored(key: string): Promise<(IStoredEntry<T> & { bytes: number }) | undefined> {
+    const fullKey = this.buildKey(key);
+    const results = await this.execEach([['pttl', fullKey], ['getBuffer', fullKey]]);
+    const [ttlErr, pttl] = results[0] ?? [];
+    const [getErr, raw] = results[1] ?? [];
+    if (ttlErr || getErr) throw ttlErr ?? getErr;
 
-        cursor = nextCursor;
+    // -2: missing; -1: no expiry
+    if (pttl === -2 || !Buffer.isBuffer(raw)) return undefined;
 
-        if (keys.length > 0) {
-          await this.redis.del(...keys);
-        }
+    const entry = await this.parseEntry(key, raw);
+    return entry && { entry, ttl: pttl === -1 ? 0 : Number(pttl), bytes: raw.length };
+  }
 
-      } while (cursor !== '0');
+  /**
+   * PEXPIRE, or PERSIST for a ttl of 0. Entries with a stale window store
+   * their soft expiry themselves, so those are rewritten (SET XX) instead.
+   * Tag sets are rescored so that invalidateTags still finds the entry.
+   */
+  async expire(key: string, ttl: number): Promise<boolean> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.expire(key, ttl);
+
+    const fullKey = this.buildKey(key);
 
+    try {
+      const raw = await this.command(() => this.redis.getBuffer(fullKey));
+      const entry = raw && (await this.parseEntry(key, raw));
+      if (!entry || !this.isFresh(entry)) return false;
+
+      const { entry: rescheduled, ttl: finalTtl } = this.rescheduleEntry(entry, ttl);
+      let updated: boolean;
+
+      if (entry.staleAt !== undefined || rescheduled.staleAt !== undefined) {
+        const serialized = await this.serializeEntry(key, rescheduled);
+        const reply = finalTtl > 0
+          ? await this.command(() => this.redis.set(fullKey, serialized, 'PX', finalTtl, 'XX'))
+          : await this.command(() => this.redis.set(fullKey, serialized, 'XX'));
+        updated = reply === 'OK';
+      } else if (finalTtl > 0) {
+        updated = (await this.command(() => this.redis.pexpire(fullKey, finalTtl))) === 1;
+      } else {
+        // PERSIST answers 0 for keys that had no expiry to remove
+        await this.command(() => this.redis.persist(fullKey));
+        updated = true;
+      }
+
+      if (updated && entry.tags) {
+        await this.addToTags(fullKey, entry.tags, finalTtl);
+      }
+      return updated;
     } catch (err) {
-      this.logger.error('Redis clearByPrefix error', {err});
+      this.reportError('expire', `Redis expire error for key ${key}`, err, key);
+      return false;
     }
   }
 
-  async size(): Promise<number> {
+  async has(key: string): Promise<boolean> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.has(key);
+
+    // The soft expiry is inside the entry, so it is read rather than checked with EXISTS
+    const entry = await this.getEntry(key);
+    return !!entry && this.isFresh(entry);
+  }
+
+  async clearByPrefix(): Promise<void> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.clearByPrefix();
+
     try {
-      let count = 0;
-      let cursor = '0';
       const pattern = this.buildKey('') + '*';
 
-      do {
-        const [nextCursor, keys] = await this.redis.scan(
-          cursor,
-          'MATCH',
-          pattern,
-          'COUNT',
-          100
-        );
+      for await (const keys of this.scanKeys(pattern)) {
+        await this.deleteKeys(keys);
+        this.emitDeleted(keys.filter(key => !this.isInternalKey(key)));
+      }
 
-        cursor = nextCursor;
-        count += keys.length;
+    } catch (err) {
+      this.reportError('clearByPrefix', 'Redis clearByPrefix error', err);
+    }
+  }
 
-      } while (cursor !== '0');
+  async size(): Promise<number> {
+    const fallback = this.activeFallback();
+    if (fallback) return fallback.size();
+
+    try {
+      let count = 0;
+      const pattern = this.buildKey('') + '*';
+
+      for await (const keys of this.scanKeys(pattern)) {
+        count += keys.filter(key => !this.isInternalKey(key)).length;
+      }
 
       return count;
 
     } catch (err) {
-      this.logger.error('Redis size error', {err});
+      this.reportError('size', 'Redis size error', err);
       return 0;
     }
   }
 
+  /**
+   * Emits "expire" and "evict" for this cache's keys from Redis keyspace
+   * notifications, received on a duplicated connection (one per master on a
+   * cluster, as notifications are node-local). The server needs
+   * `notify-keyspace-events` to include "Exe"; `configure: true` adds the
+   * missing flags with CONFIG SET (often disabled on managed Redis).
+   */
+  async subscribeKeyspaceEvents(options: { configure?: boolean } = {}): Promise<void> {
+    await this.unsubscribeKeyspaceEvents();
+
+    if (options.configure) {
+      await this.configureKeyspaceEvents();
+    }
+
+    // Cluster nodes only have db 0
+    const db = this.redis.isCluster ? 0 : (this.redis as RedisClient).options.db ?? 0;
+    const events: Record<string, 'expire' | 'evict'> = {
+      [`__keyevent@${db}__:expired`]: 'expire',
+      [`__keyevent@${db}__:evicted`]: 'evict'
+    };
+
+    for (const node of this.scanNodes()) {
+      const subscriber = node.duplicate();
+      subscriber.on('message', (channel: string, fullKey: string) => {
+        const event = events[channel];
+        if (!event || this.isInternalKey(fullKey)) return;
+
+        const prefix = this.buildKey('');
+        if (prefix && !fullKey.startsWith(prefix)) return;
+
+        this.emit(event, { key: this.stripPrefix(fullKey) });
+      });
+
+      this.keyspaceSubscribers.push(subscriber);
+
+      if (subscriber.status === 'wait') {
+        await subscriber.connect();
+      }
+      await subscriber.subscribe(...Object.keys(events));
+    }
+  }
+
+  async unsubscribeKeyspaceEvents(): Promise<void> {
+    const subscribers = this.keyspaceSubscribers.splice(0);
+
+    for (const subscriber of subscribers) {
+      try {
+        await subscriber.quit();
+      } catch (err) {
+        this.logger.warn?.('Error closing keyspace notification connection', { error: err });
+        subscriber.disconnect();
+      }
+    }
+  }
+
+  private async configureKeyspaceEvents(): Promise<void> {
+    for (const node of this.scanNodes()) {
+      try {
+        const [, current = ''] = (await node.config('GET', 'notify-keyspace-events')) as string[];
+        // "A" already covers "x" and "e"
+        const missing = ['E', 'x', 'e'].filter(flag =>
+          !current.includes(flag) && !(flag !== 'E' && current.includes('A'))
+        );
+
+        if (missing.length > 0) {
+          await node.config('SET', 'notify-keyspace-events', current + missing.join(''));
+        }
+      } catch (err) {
+        this.logger.warn('Could not enable Redis keyspace notifications', { err });
+      }
+    }
+  }
+
   override async getStats() {
     const base = await super.getStats();
     return {
       ...base,
-      ttl: this.options.ttl
+      ttl: this.options.ttl,
+      compression: this.compressor.getStats(),
+      ...(this.breaker ? { circuitBreaker: this.breaker.getStats() } : {})
     };
   }
 
+  override async clear(): Promise<void> {
+    await super.clear();
+    this.compressor.reset();
+  }
+
   override async disconnect(): Promise<void> {
+    await this.unsubscribeKeyspaceEvents();
     await super.disconnect(); // Clear namespace and reset stats
-    
+    await this.close();
+  }
+
+  // Closes the connections and leaves the keys in Redis
+  override async close(): Promise<void> {
+    await this.unsubscribeKeyspaceEvents();
+
     // Close Redis connection if it's still open
     if (this.redis && this.redis.status !== 'end' && this.redis.status !== 'close') {
       try {
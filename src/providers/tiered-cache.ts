@@ -0,0 +1,388 @@
+import {
+  BaseCache,
+  CacheError,
+  ICacheOptions,
+  ICacheEntry,
+  ICacheEntryMeta,
+  ICacheProvider,
+  ICacheSetOptions,
+  ICacheStats,
+  ICacheTierStats,
+  ICounterOptions,
+  IStoredEntry,
+  IVersionedValue
+} from "../index.js";
+
+export interface ICacheTier<T = any> {
+  cache: ICacheProvider<T>;
+  ttl?: number;                 // Caps the TTL written to this tier (e.g. short L1)
+}
+
+/**
+ * TieredCache
+ *
+ * Combines several providers ordered fastest first (e.g. L1: MemoryCache, L2: RedisCache).
+ * Reads fall through the tiers and fill the faster ones on a hit; writes and deletes
+ * go to every tier.
+ */
+export class TieredCache<T = any> extends BaseCache<T> {
+  private readonly tiers: ICacheTier<T>[];
+  private tierHits: number[];
+
+  constructor(tiers: Array<ICacheProvider<T> | ICacheTier<T>>, options: ICacheOptions = {}) {
+    super("tiered", { ...options, maxSize: 0 });
+
+    this.tiers = tiers.map(tier => ("cache" in tier ? tier : { cache: tier }));
+    this.tierHits = this.tiers.map(() => 0);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    if (!this.options.enabled) {
+      this.incrementMiss(key);
+      return undefined;
+    }
+
+    const entry = await this.getEntry(key);
+
+    if (!entry || !this.isFresh(entry)) {
+      this.incrementMiss(key);
+      return undefined;
+    }
+
+    this.incrementHit(key, entry.value);
+    return entry.value;
+  }
+
+  // The fastest fresh entry, or else the first stale one, so that getOrSet() can serve it
+  protected async getEntry(key: string): Promise<ICacheEntry<T> | undefined> {
+    const fullKey = this.buildKey(key);
+    let stale: ICacheEntry<T> | undefined;
+
+    for (let i = 0; i < this.tiers.length; i++) {
+      const stored = await this.readTier(i, fullKey);
+      if (!stored) continue;
+
+      if (!this.isFresh(stored.entry)) {
+        stale ??= stored.entry;
+        continue;
+      }
+
+      this.tierHits[i]!++;
+      await this.backfill(fullKey, stored, i);
+      return stored.entry;
+    }
+
+    return stale;
+  }
+
+  /**
+   * One read of a tier: its stored entry, stale ones included, or for
+   * providers without peekEntry() the fresh entry from getWithMeta().
+   */
+  private async readTier(index: number, fullKey: string): Promise<IStoredEntry<T> | undefined> {
+    const cache = this.tiers[index]!.cache;
+    if (cache.peekEntry) return cache.peekEntry(fullKey);
+
+    const meta = await cache.getWithMeta(fullKey);
+    if (!meta) return undefined;
+
+    const entry: ICacheEntry<T> = { value: meta.value, createdAt: meta.createdAt };
+    if (meta.tags) entry.tags = meta.tags;
+    return { entry, ttl: meta.remainingTtl };
+  }
+
+  /**
+   * Copies a fresh entry found in a slower tier into every faster one, with
+   * its tags, stale windows and remaining TTL so that the copies expire and
+   * are invalidated together with it.
+   */
+  private async backfill(fullKey: string, stored: IStoredEntry<T>, foundAt: number): Promise<void> {
+    if (foundAt === 0) return;
+
+    const { entry } = stored;
+    const ttl = entry.staleAt !== undefined ? Math.max(1, entry.staleAt - Date.now()) : stored.ttl;
+    const options: ICacheSetOptions = {
+      staleTtl: entry.staleTtl ?? 0,
+      staleIfErrorTtl: entry.staleIfErrorTtl ?? 0,
+      ...(entry.tags ? { tags: entry.tags } : {})
+    };
+
+    const tasks = this.tiers.slice(0, foundAt).map(tier =>
+      tier.cache
+        .set(fullKey, entry.value, { ...options, ttl: this.tierTtl(tier, ttl) })
+        .catch((err: any) => {
+          this.logger.warn(`TieredCache backfill failed on "${tier.cache.backend}": ${err.message}`);
+        })
+    );
+    await Promise.all(tasks);
+  }
+
+  async set(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<void> {
+    if (!this.options.enabled) return;
+
+    const options = this.toSetOptions(ttl);
+    const finalTtl = options.ttl ?? this.options.ttl;
+    const fullKey = this.buildKey(key);
+
+    await Promise.all(
+      this.tiers.map(tier =>
+        tier.cache.set(fullKey, value, { ...options, ttl: this.tierTtl(tier, finalTtl) })
+      )
+    );
+
+    this.emit("set", { key, value, ttl: finalTtl });
+  }
+
+  override async mget(keys: string[]): Promise<Array<T | undefined>> {
+    const values: Array<T | undefined> = keys.map(() => undefined);
+
+    if (this.options.enabled) {
+      const fullKeys = keys.map(key => this.buildKey(key));
+      let pending = keys.map((_, i) => i);
+
+      // The first tier in one batch; slower ones entry by entry, so each read also feeds its backfill
+      for (let t = 0; t < this.tiers.length && pending.length > 0; t++) {
+        const found = t === 0
+          ? await this.tiers[0]!.cache.mget(pending.map(i => fullKeys[i]!))
+          : await Promise.all(pending.map(async i => {
+            const stored = await this.readTier(t, fullKeys[i]!);
+            if (!stored || !this.isFresh(stored.entry)) return undefined;
+
+            await this.backfill(fullKeys[i]!, stored, t);
+            return stored.entry.value;
+          }));
+        const next: number[] = [];
+
+        found.forEach((value, j) => {
+          const i = pending[j]!;
+          if (value === undefined) {
+            next.push(i);
+            return;
+          }
+          values[i] = value;
+          this.tierHits[t]!++;
+        });
+
+        pending = next;
+      }
+    }
+
+    values.forEach((value, i) => {
+      if (value === undefined) this.incrementMiss(keys[i]!);
+      else this.incrementHit(keys[i]!, value);
+    });
+
+    return values;
+  }
+
+  override async mset(entries: Iterable<readonly [string, T]>, ttl?: number | ICacheSetOptions): Promise<void> {
+    if (!this.options.enabled) return;
+
+    const options = this.toSetOptions(ttl);
+    const finalTtl = options.ttl ?? this.options.ttl;
+    const list = Array.from(entries);
+    const fullEntries = list.map(([key, value]) => [this.buildKey(key), value] as const);
+
+    await Promise.all(
+      this.tiers.map(tier =>
+        tier.cache.mset(fullEntries, { ...options, ttl: this.tierTtl(tier, finalTtl) })
+      )
+    );
+
+    for (const [key, value] of list) {
+      this.emit("set", { key, value, ttl: finalTtl });
+    }
+  }
+
+  override async mdelete(keys: string[]): Promise<number> {
+    const fullKeys = keys.map(key => this.buildKey(key));
+    const counts = await Promise.all(this.tiers.map(tier => tier.cache.mdelete(fullKeys)));
+    return counts.length > 0 ? Math.max(...counts) : 0;
+  }
+
+  private tierTtl(tier: ICacheTier<T>, ttl: number): number {
+    if (tier.ttl === undefined) return ttl;
+    return ttl > 0 ? Math.min(tier.ttl, ttl) : tier.ttl;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+    const results = await Promise.all(this.tiers.map(tier => tier.cache.delete(fullKey)));
+    const deleted = results.some(Boolean);
+
+    if (deleted) this.emit("delete", { key });
+    return deleted;
+  }
+
+  async has(key: string): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+
+    for (const tier of this.tiers) {
+      if (await tier.cache.has(fullKey)) return true;
+    }
+
+    return false;
+  }
+
+  // From the fastest tier holding the key; faster tiers are not backfilled
+  async getWithMeta(key: string): Promise<ICacheEntryMeta<T> | undefined> {
+    const fullKey = this.buildKey(key);
+
+    for (const tier of this.tiers) {
+      const meta = await tier.cache.getWithMeta(fullKey);
+      if (meta) return meta;
+    }
+
+    return undefined;
+  }
+
+  // Every tier, within its TTL cap: persist() leaves capped tiers at their cap
+  async expire(key: string, ttl: number): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+    const results = await Promise.all(this.tiers.map(tier => tier.cache.expire(fullKey, this.tierTtl(tier, ttl))));
+    return results.some(Boolean);
+  }
+
+  async getKeys(pattern: string): Promise<string[]> {
+    const results = await Promise.all(
+      this.tiers.map(tier => tier.cache.getKeys(this.buildKey(pattern)))
+    );
+    return Array.from(new Set(results.flat()));
+  }
+
+  override async deleteByPattern(pattern: string): Promise<void> {
+    await Promise.all(this.tiers.map(tier => tier.cache.deleteByPattern(this.buildKey(pattern))));
+  }
+
+  override async deleteByPrefix(prefix: string): Promise<void> {
+    await Promise.all(this.tiers.map(tier => tier.cache.deleteByPrefix(this.buildKey(prefix))));
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    await Promise.all(this.tiers.map(tier => tier.cache.invalidateTags(tags)));
+  }
+
+  // Counters live in the slowest tier; copies in the faster tiers are dropped
+  override async increment(key: string, by = 1, options: ICounterOptions = {}): Promise<number> {
+    const last = this.tiers[this.tiers.length - 1];
+    if (!last) return super.increment(key, by, options);
+
+    const fullKey = this.buildKey(key);
+    const value = await last.cache.increment(fullKey, by, options);
+    await Promise.all(this.tiers.slice(0, -1).map(tier => tier.cache.delete(fullKey)));
+    return value;
+  }
+
+  // Locks live in the slowest tier as well
+  async acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+    return this.lockingTier().acquireLock!(this.buildKey(key), token, ttl);
+  }
+
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    return this.lockingTier().releaseLock!(this.buildKey(key), token);
+  }
+
+  async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+    return this.lockingTier().extendLock!(this.buildKey(key), token, ttl);
+  }
+
+  private lockingTier(): ICacheProvider<T> {
+    const last = this.tiers[this.tiers.length - 1]?.cache;
+    if (!last?.acquireLock || !last.releaseLock || !last.extendLock) {
+      throw new CacheError(`The slowest tier (${last?.backend ?? "none"}) does not support locks`, "UNSUPPORTED_OPERATION");
+    }
+    return last;
+  }
+
+  // Versioned entries live in the slowest tier too; a successful write drops the faster copies
+  async getVersioned(key: string): Promise<IVersionedValue<T> | undefined> {
+    return this.versioningTier().getVersioned!(this.buildKey(key));
+  }
+
+  async setIfVersion(key: string, value: T, version: string, ttl?: number | ICacheSetOptions): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+    const written = await this.versioningTier().setIfVersion!(fullKey, value, version, ttl);
+    if (written) await Promise.all(this.tiers.slice(0, -1).map(tier => tier.cache.delete(fullKey)));
+    return written;
+  }
+
+  async setIfAbsent(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+    const written = await this.versioningTier().setIfAbsent!(fullKey, value, ttl);
+    if (written) await Promise.all(this.tiers.slice(0, -1).map(tier => tier.cache.delete(fullKey)));
+    return written;
+  }
+
+  private versioningTier(): ICacheProvider<T> {
+    const last = this.tiers[this.tiers.length - 1]?.cache;
+    if (!last?.getVersioned || !last.setIfVersion || !last.setIfAbsent) {
+      throw new CacheError(`The slowest tier (${last?.backend ?? "none"}) does not support versioned writes`, "UNSUPPORTED_OPERATION");
+    }
+    return last;
+  }
+
+  // Namespace versions live in the slowest tier, usually the one shared between instances
+  override async getNamespaceVersion(namespace: string): Promise<number> {
+    const last = this.tiers[this.tiers.length - 1];
+    return last ? last.cache.getNamespaceVersion(this.buildKey(namespace)) : super.getNamespaceVersion(namespace);
+  }
+
+  override async bumpVersion(namespace: string): Promise<number> {
+    const last = this.tiers[this.tiers.length - 1];
+    return last ? last.cache.bumpVersion(this.buildKey(namespace)) : super.bumpVersion(namespace);
+  }
+
+  async clearByPrefix(): Promise<void> {
+    await Promise.all(
+      this.tiers.map(tier =>
+        this.options.prefix
+          ? tier.cache.deleteByPrefix(this.options.prefix)
+          : tier.cache.clearByPrefix()
+      )
+    );
+  }
+
+  // The slowest tier usually holds the superset of keys
+  async size(): Promise<number> {
+    const sizes = await Promise.all(this.tiers.map(tier => tier.cache.size()));
+    return sizes.length > 0 ? Math.max(...sizes) : 0;
+  }
+
+  override async clear(): Promise<void> {
+    await super.clear();
+    this.tierHits = this.tiers.map(() => 0);
+  }
+
+  override async getStats(): Promise<ICacheStats> {
+    const base = await super.getStats();
+
+    const tiers: ICacheTierStats[] = await Promise.all(
+      this.tiers.map(async (tier, i) => ({
+        backend: tier.cache.backend,
+        hits: this.tierHits[i]!,
+        size: await tier.cache.size()
+      }))
+    );
+
+    return {
+      ...base,
+      ttl: this.options.ttl,
+      tiers
+    };
+  }
+
+  override async disconnect(): Promise<void> {
+    await Promise.all(this.tiers.map(tier => tier.cache.disconnect?.()));
+    this.hits = 0;
+    this.misses = 0;
+    this.tierHits = this.tiers.map(() => 0);
+  }
+
+  override async dispose(): Promise<void> {
+    return this.disconnect();
+  }
+
+  override async close(): Promise<void> {
+    await Promise.all(this.tiers.map(tier => tier.cache.close?.()));
+  }
+}
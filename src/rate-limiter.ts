@@ -0,0 +1,146 @@
+import type { ICacheProvider } from './interface.js';
+import type { IRateLimiterOptions, IRateLimitResult, RateLimitAlgorithm } from './types.js';
+import { CacheError } from './cacheError.js';
+import { ScopedCache } from './scoped-cache.js';
+
+// Compare-and-set attempts per sliding-log update before giving up
+const MAX_LOG_WRITES = 10;
+
+/**
+ * RateLimiter
+ *
+ * Counts requests per id in a scope of any provider (prefix "ratelimit" by
+ * default), so instances sharing a RedisCache share their limits.
+ *
+ * - fixed-window: one counter per id and window, updated with increment().
+ *   Atomic on MemoryCache and RedisCache, but lets up to twice the limit
+ *   through around a window boundary.
+ * - sliding-window-log: the request timestamps of the last window, stored as
+ *   one entry and updated by compare-and-set (setIfVersion), so it stays exact
+ *   across processes. Needs a backend with versioned writes.
+ */
+export class RateLimiter {
+  readonly algorithm: RateLimitAlgorithm;
+  private readonly limit: number;
+  private readonly window: number;
+  private readonly scope: ScopedCache<number | number[]>;
+
+  // Sliding-log updates in flight, by id; they would only conflict with each other
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  constructor(cache: ICacheProvider, options: IRateLimiterOptions) {
+    if (!(options.limit > 0) || !(options.window > 0)) {
+      throw new CacheError('RateLimiter needs a positive limit and window', 'INVALID_OPTIONS', 400);
+    }
+
+    this.algorithm = options.algorithm ?? 'fixed-window';
+    if (this.algorithm === 'sliding-window-log' && !(cache.getVersioned && cache.setIfVersion && cache.setIfAbsent)) {
+      throw new CacheError(
+        `The sliding-window-log algorithm needs versioned writes, which the ${cache.backend} backend does not support`,
+        'UNSUPPORTED_OPERATION',
+        400
+      );
+    }
+
+    this.limit = options.limit;
+    this.window = options.window;
+    this.scope = new ScopedCache(cache, { prefix: options.prefix ?? 'ratelimit' });
+  }
+
+  /**
+   * Records `cost` requests for `id`. Denied requests still count in a fixed
+   * window, while the sliding log only records allowed ones.
+   */
+  async consume(id: string, cost = 1): Promise<IRateLimitResult> {
+    return this.algorithm === 'fixed-window'
+      ? this.consumeFixedWindow(id, cost)
+      : this.serialize(id, () => this.consumeSlidingLog(id, cost));
+  }
+
+  async reset(id: string): Promise<void> {
+    if (this.algorithm === 'fixed-window') {
+      await this.scope.delete(this.windowKey(id, this.windowStart(Date.now())));
+    } else {
+      await this.serialize(id, () => this.scope.delete(this.logKey(id)));
+    }
+  }
+
+  private async consumeFixedWindow(id: string, cost: number): Promise<IRateLimitResult> {
+    const now = Date.now();
+    const resetAt = this.windowStart(now) + this.window;
+    const count = await this.scope.increment(this.windowKey(id, resetAt - this.window), cost, { ttl: resetAt - now });
+
+    return this.result(count <= this.limit, count, resetAt, now);
+  }
+
+  // Writes only over the log it read; a log changed by another process in between is read again
+  private async consumeSlidingLog(id: string, cost: number): Promise<IRateLimitResult> {
+    const key = this.logKey(id);
+
+    // A disabled cache stores no log, so only this request counts
+    if (!this.scope.getOptions().enabled) {
+      const now = Date.now();
+      return this.result(cost <= this.limit, cost, now + this.window, now);
+    }
+
+    for (let attempt = 0; attempt < MAX_LOG_WRITES; attempt++) {
+      const now = Date.now();
+      const stored = await this.scope.getVersioned(key);
+      const log = (Array.isArray(stored?.value) ? stored.value : []).filter(at => at > now - this.window);
+
+      if (log.length + cost > this.limit) {
+        // Wait until enough logged requests have left the window
+        const freedBy = log[log.length + cost - this.limit - 1];
+        return this.result(false, log.length, freedBy !== undefined ? freedBy + this.window : now + this.window, now);
+      }
+
+      for (let i = 0; i < cost; i++) log.push(now);
+      const written = stored
+        ? await this.scope.setIfVersion(key, log, stored.version, { ttl: this.window })
+        : await this.scope.setIfAbsent(key, log, { ttl: this.window });
+
+      if (written) return this.result(true, log.length, log[0]! + this.window, now);
+    }
+
+    throw new CacheError(
+      `Rate limit log of "${id}" kept changing; gave up after ${MAX_LOG_WRITES} attempts`,
+      'RATE_LIMIT_CONFLICT',
+      503
+    );
+  }
+
+  private result(allowed: boolean, count: number, resetAt: number, now: number): IRateLimitResult {
+    return {
+      allowed,
+      limit: this.limit,
+      remaining: Math.max(0, this.limit - count),
+      resetAt,
+      retryAfter: allowed ? 0 : Math.max(0, resetAt - now)
+    };
+  }
+
+  private windowStart(now: number): number {
+    return now - (now % this.window);
+  }
+
+  private windowKey(id: string, windowStart: number): string {
+    return `${id}:${windowStart}`;
+  }
+
+  private logKey(id: string): string {
+    return `${id}:log`;
+  }
+
+  // Runs the updates of one id one after another
+  private serialize<R>(id: string, run: () => Promise<R>): Promise<R> {
+    const next = (this.pending.get(id) ?? Promise.resolve()).then(run);
+    const tail = next.catch(() => {});
+
+    this.pending.set(id, tail);
+    tail.then(() => {
+      if (this.pending.get(id) === tail) this.pending.delete(id);
+    });
+
+    return next;
+  }
+}
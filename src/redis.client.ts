@@ -1,18 +1,31 @@
 // src/cache/redis.client.ts
-import type { LoggerContract } from './types.js';
-import { Redis } from 'ioredis';
+import type { IRedisConnectionOptions, LoggerContract, RedisConnection } from './types.js';
+import { Cluster, Redis, RedisOptions } from 'ioredis';
 
-export async function createRedisClient(logger: LoggerContract | Console = console) {
-  const redisUrl = process.env["REDIS_URL"];
-  if (!redisUrl) {
+/** True for ioredis clients (standalone or cluster), as opposed to connection options. */
+export function isRedisConnection(value: unknown): value is RedisConnection {
+  return typeof value === 'object' && value !== null && typeof (value as RedisConnection).pipeline === 'function';
+}
+
+/**
+ * Creates an ioredis client from `connection`, falling back to REDIS_URL when
+ * it names no topology. Returns null when neither is configured.
+ * The client connects lazily, on its first command.
+ */
+export async function createRedisClient(
+  logger: LoggerContract | Console = console,
+  connection: IRedisConnectionOptions = {}
+): Promise<RedisConnection | null> {
+  const { host, sentinels, cluster } = connection;
+  const url = connection.url ?? (host ? undefined : process.env["REDIS_URL"]);
+  if (!cluster && !sentinels?.length && !url && !host) {
     return null;
   }
 
-  const client = new Redis(redisUrl, {
-    maxRetriesPerRequest: 2,
-    enableOfflineQueue: false,
+  const options: RedisOptions = {
+    maxRetriesPerRequest: connection.maxRetriesPerRequest ?? 2,
+    enableOfflineQueue: connection.enableOfflineQueue ?? false,
     lazyConnect: true,
-    // REMOVED: port and password parameters - let ioredis parse them from the URL
     // Adding retry strategy for better reconnection handling
     retryStrategy: (times) => {
       const delay = Math.min(times * 100, 3000);
@@ -26,8 +39,38 @@ export async function createRedisClient(logger: LoggerContract | Console = conso
         return true;
       }
       return false;
-    }
-  });
+    },
+    ...(connection.username !== undefined ? { username: connection.username } : {}),
+    ...(connection.password !== undefined ? { password: connection.password } : {}),
+    ...(connection.db !== undefined ? { db: connection.db } : {}),
+    ...(connection.tls ? { tls: connection.tls === true ? {} : connection.tls } : {}),
+    ...connection.redisOptions
+  };
+
+  let client: RedisConnection;
+
+  if (cluster) {
+    const { retryStrategy, enableOfflineQueue, lazyConnect, maxRetriesPerRequest, ...nodeOptions } = options;
+    client = new Cluster(cluster.nodes, {
+      lazyConnect,
+      enableOfflineQueue,
+      clusterRetryStrategy: retryStrategy,
+      redisOptions: { ...nodeOptions, maxRetriesPerRequest },
+      ...cluster.options
+    });
+  } else if (sentinels?.length) {
+    client = new Redis({
+      ...options,
+      sentinels,
+      name: connection.name ?? 'mymaster',
+      ...(connection.sentinelPassword !== undefined ? { sentinelPassword: connection.sentinelPassword } : {})
+    });
+  } else if (url) {
+    // REMOVED: port and password parameters - let ioredis parse them from the URL
+    client = new Redis(url, options);
+  } else {
+    client = new Redis({ ...options, host: host!, port: connection.port ?? 6379 });
+  }
 
   client.on('error', (err) => {
     logger.warn?.("Redis connection error", { error: err.message });
@@ -1,14 +1,24 @@
-import { CacheBackend, createCache, ICacheOptions, ICacheProvider } from "./index.js";
+import { CacheBackend, createCache, ICacheOptions, ICacheProvider, ICacheStats, ICacheWarmerOptions, ICreateCacheOptions, IRedisConnectionOptions, IRegisterBackendOptions, IRegisteredBackend, IScopedCacheInfo, IWarmerReport, RedisConnection } from "./index.js";
 import { CacheError } from "./cacheError.js";
 import type { LoggerContract } from './types.js';
 import { ScopedCache } from "./scoped-cache.js"; // <-- NEW WRAPPER
+import { CacheWarmer } from "./warmer.js";
 
 export class CacheRegistry {
   private static instance: CacheRegistry | null = null;
 
-  // Store ONLY backend instances (MemoryCache, RedisCache)
-  private backends = new Map<CacheBackend, ICacheProvider>();
-  private defaultBackend?: CacheBackend;
+  // Backend instances (MemoryCache, RedisCache, ...) by instance name
+  private backends = new Map<string, ICacheProvider>();
+  private defaultBackend?: string;
+
+  // Scopes handed out by getScoped/getScopedOrDefault, held weakly, with their instance name
+  private scopes = new Map<WeakRef<ScopedCache>, string>();
+
+  // Drops the entry of a scope once it has been garbage collected
+  private scopeRefs = new FinalizationRegistry<WeakRef<ScopedCache>>(ref => this.scopes.delete(ref));
+
+  // Warm-up jobs by name
+  private warmers = new Map<string, CacheWarmer>();
 
   constructor(private readonly logger: LoggerContract | Console = console) { }
 
@@ -23,39 +33,41 @@ export class CacheRegistry {
     CacheRegistry.instance = null;
   }
 
-  // Register backend instance (MemoryCache or RedisCache)
-  async registerBackend(cache: ICacheProvider, isDefault = false): Promise<void> {
-    if (this.backends.has(cache.backend)) {
-      return;
+  /**
+   * Registers a backend instance under `name` (default: its type, e.g. "redis"),
+   * so several instances of one type can live side by side. Passing `true`
+   * is short for `{ isDefault: true }`.
+   */
+  async registerBackend(cache: ICacheProvider, options: boolean | IRegisterBackendOptions = false): Promise<void> {
+    const { name = cache.backend, isDefault = false } = typeof options === "boolean" ? { isDefault: options } : options;
+
+    if (this.backends.has(name)) {
+      throw new CacheError(`Backend "${name}" is already registered`, "BACKEND_EXISTS", 409);
     }
 
-    this.backends.set(cache.backend, cache);
+    this.backends.set(name, cache);
 
     if (isDefault) {
-      this.defaultBackend = cache.backend;
+      this.defaultBackend = name;
     }
 
     this.logger.info(
-      `CacheRegistry - Registered backend: ${cache.backend}, default: ${isDefault}`
+      `CacheRegistry - Registered backend: ${name} (${cache.backend}), default: ${isDefault}`
     );
   }
 
-  // Return backend instance (internal use only)
-  private getBackend(name: CacheBackend): ICacheProvider {
+  // Removes an instance; existing scopes keep using it
+  unregisterBackend(name: string): boolean {
+    if (!this.backends.delete(name)) return false;
 
-    const backend = this.backends.get(name);
-    if (!backend) {
-      throw new CacheError(
-        `Backend "${name}" not found. Available: ${Array.from(this.backends.keys()).join(", ")}`,
-        "BACKEND_NOT_FOUND",
-        404
-      );
+    if (this.defaultBackend === name) {
+      this.defaultBackend = undefined;
     }
-    return backend;
+    return true;
   }
 
  // Strict version: if name is provided and not found → throw
-getScoped(opts: { name?: CacheBackend; options?: Partial<ICacheOptions> } = {}): ICacheProvider {
+getScoped(opts: { name?: string; options?: Partial<ICacheOptions> } = {}): ICacheProvider {
   const { name, options = {} } = opts;
 
   const backendName = name ?? this.defaultBackend;
@@ -64,35 +76,132 @@ getScoped(opts: { name?: CacheBackend; options?: Partial<ICacheOptions> } = {}):
   }
 
   if (!this.backends.has(backendName)) {
-    throw new CacheError(`Backend "${backendName}" not registered`, "BACKEND_NOT_FOUND", 404);
+    throw new CacheError(
+      `Backend "${backendName}" not registered. Available: ${this.listBackends().join(", ")}`,
+      "BACKEND_NOT_FOUND",
+      404
+    );
   }
 
-  const backend = this.backends.get(backendName)!;
-  return new ScopedCache(backend, options);
+  return this.createScope(backendName, options);
 }
 
 
 // Soft version: if name missing or invalid → fallback to default
-getScopedOrDefault(opts: { name?: CacheBackend; options?: Partial<ICacheOptions> } = {}): ICacheProvider {
+getScopedOrDefault(opts: { name?: string; options?: Partial<ICacheOptions> } = {}): ICacheProvider {
   const { name, options = {} } = opts;
 
   // If name provided and exists → use it
   if (name && this.backends.has(name)) {
-    return new ScopedCache(this.backends.get(name)!, options);
+    return this.createScope(name, options);
   }
 
   // Otherwise fallback to default
   if (this.defaultBackend && this.backends.has(this.defaultBackend)) {
-    return new ScopedCache(this.backends.get(this.defaultBackend)!, options);
+    return this.createScope(this.defaultBackend, options);
   }
 
   throw new CacheError("No backend registered and no default set", "NO_BACKEND_REGISTERED", 500);
 }
+  private createScope(name: string, options: Partial<ICacheOptions>): ScopedCache {
+    const scope = new ScopedCache(this.backends.get(name)!, options);
+    const ref = new WeakRef(scope);
+    this.scopes.set(ref, name);
+    this.scopeRefs.register(scope, ref);
+    return scope;
+  }
+
+  // Live scopes (not disposed nor garbage collected) with their own stats
+  async listScopes(): Promise<IScopedCacheInfo[]> {
+    const scopes: Array<[ScopedCache, string]> = [];
+
+    for (const [ref, name] of this.scopes) {
+      const scope = ref.deref();
+      if (scope?.isActive) scopes.push([scope, name]);
+      else this.scopes.delete(ref);
+    }
+
+    return Promise.all(
+      scopes.map(async ([scope, name]) => ({
+        name,
+        backend: scope.backend,
+        prefix: scope.getOptions().prefix ?? "",
+        stats: await scope.getStats()
+      }))
+    );
+  }
+
+  // Register a warm-up job; its scope is resolved when it first runs
+  registerWarmer<T = any>(options: ICacheWarmerOptions<T>): void {
+    if (this.warmers.has(options.name)) {
+      throw new CacheError(`Warmer "${options.name}" is already registered`, "WARMER_EXISTS", 409);
+    }
+
+    const resolveCache = () => this.getScopedOrDefault({
+      ...(options.backend ? { name: options.backend } : {}),
+      options: options.options ?? {}
+    }) as ICacheProvider<T>;
+
+    this.warmers.set(options.name, new CacheWarmer(options, resolveCache, this.logger));
+    this.logger.info(`CacheRegistry - Registered warmer: ${options.name}, critical: ${options.critical ?? false}`);
+  }
+
+  listWarmers(): string[] {
+    return Array.from(this.warmers.keys());
+  }
+
+  async runWarmer(name: string): Promise<IWarmerReport> {
+    const warmer = this.warmers.get(name);
+    if (!warmer) {
+      throw new CacheError(`Warmer "${name}" not registered`, "WARMER_NOT_FOUND", 404);
+    }
+    return warmer.run();
+  }
+
+  /**
+   * Runs the startup warmers and schedules the periodic ones (all of them, or
+   * those named). Resolves with the reports of the critical warmers once they
+   * have finished; the others keep running in the background. Rejects if a
+   * critical warmer cannot run at all.
+   */
+  async startWarmers(names: string[] = this.listWarmers()): Promise<IWarmerReport[]> {
+    const warmers = names.map(name => {
+      const warmer = this.warmers.get(name);
+      if (!warmer) {
+        throw new CacheError(`Warmer "${name}" not registered`, "WARMER_NOT_FOUND", 404);
+      }
+      return warmer;
+    });
+    const critical: Promise<IWarmerReport>[] = [];
+
+    for (const warmer of warmers) {
+      warmer.schedule();
+      if (!warmer.runOnStart) continue;
+
+      const run = warmer.run();
+      if (warmer.critical) critical.push(run);
+      else run.catch(() => {}); // Logged by the warmer
+    }
+
+    return Promise.all(critical);
+  }
+
+  stopWarmers(): void {
+    for (const warmer of this.warmers.values()) {
+      warmer.stop();
+    }
+  }
+
+  // True once every critical warmer has completed a run
+  get isReady(): boolean {
+    return Array.from(this.warmers.values()).every(warmer => !warmer.critical || warmer.hasCompleted);
+  }
+
   // Clear all backends (namespace clearing)
   async clearAll(): Promise<void> {
-    const tasks = Array.from(this.backends.values()).map(backend =>
+    const tasks = Array.from(this.backends).map(([name, backend]) =>
       backend.clear().catch(err => {
-        this.logger.warn(`Failed to clear backend "${backend.backend}": ${err.message}`);
+        this.logger.warn(`Failed to clear backend "${name}": ${err.message}`);
       })
     );
     await Promise.all(tasks);
@@ -100,28 +209,39 @@ getScopedOrDefault(opts: { name?: CacheBackend; options?: Partial<ICacheOptions>
 
   // Clear prefix across all backends
   async clearAllByPrefix(prefix: string): Promise<void> {
-    const tasks = Array.from(this.backends.values()).map(backend =>
+    const tasks = Array.from(this.backends).map(([name, backend]) =>
       backend.deleteByPrefix(prefix).catch(err => {
-        this.logger.warn(`Failed to clear prefix "${prefix}" on backend "${backend.backend}": ${err.message}`);
+        this.logger.warn(`Failed to clear prefix "${prefix}" on backend "${name}": ${err.message}`);
       })
     );
     await Promise.all(tasks);
   }
 
-  listBackends(): CacheBackend[] {
+  // Instance names
+  listBackends(): string[] {
     return Array.from(this.backends.keys());
   }
 
-  hasBackend(name: CacheBackend): boolean {
+  // Instance names with their type tags
+  describeBackends(): IRegisteredBackend[] {
+    return Array.from(this.backends, ([name, cache]) => ({
+      name,
+      type: cache.backend,
+      isDefault: name === this.defaultBackend
+    }));
+  }
+
+  hasBackend(name: string): boolean {
     return this.backends.has(name);
   }
 
-  getDefaultBackend(): CacheBackend | undefined {
+  getDefaultBackend(): string | undefined {
     return this.defaultBackend;
   }
 
-  async getStats(): Promise<Record<string, any>> {
-    const stats: Record<string, any> = {};
+  // Stats by instance name
+  async getStats(): Promise<Record<string, ICacheStats | { error: string }>> {
+    const stats: Record<string, ICacheStats | { error: string }> = {};
 
     for (const [name, backend] of this.backends) {
       try {
@@ -135,24 +255,54 @@ getScopedOrDefault(opts: { name?: CacheBackend; options?: Partial<ICacheOptions>
   }
 }
 
-export async function setupApplicationCaches(logger?: LoggerContract | Console) {
-  let isRedis = process.env["REDIS_URL"] !== undefined;
+export interface ISetupCachesOptions {
+  backend?: CacheBackend;              // Default: "redis" when `redis` or REDIS_URL is set, "memcached" when MEMCACHED_URL is set, else "memory"
+  redis?: IRedisConnectionOptions | RedisConnection;  // Connection config or client (default: REDIS_URL)
+  cacheOptions?: ICreateCacheOptions;  // Passed to createCache for the default backend
+  warmers?: ICacheWarmerOptions[];     // Registered and started; setup waits for the critical ones
+}
 
-  const defaultBackend = await createCache(
-    isRedis ? "redis" : "memory",
-    { maxSize: isRedis ? 0 : 1000 }
+export async function setupApplicationCaches(
+  logger?: LoggerContract | Console,
+  setup: ISetupCachesOptions = {}
+) {
+  const requested = setup.backend ?? (
+    setup.redis !== undefined || process.env["REDIS_URL"] !== undefined ? "redis"
+      : process.env["MEMCACHED_URL"] !== undefined ? "memcached"
+      : "memory"
   );
 
-  isRedis = defaultBackend.backend === "redis";
-
   const registry = CacheRegistry.getInstance(logger);
 
-  await registry.registerBackend(defaultBackend, true);
+  // Already set up (possibly on a fallback backend): reuse it rather than opening another connection
+  if (registry.getDefaultBackend() === undefined) {
+    const defaultBackend = await createCache(requested, {
+      maxSize: requested === "redis" || requested === "memcached" ? 0 : 1000,
+      ...(logger ? { logger } : {}),
+      ...(setup.redis ? { redis: setup.redis } : {}),
+      ...setup.cacheOptions
+    });
+
+    try {
+      await registry.registerBackend(defaultBackend, true);
+    } catch (err) {
+      // close(), not dispose(): the keys may be shared with a registered instance
+      await defaultBackend.close?.();
+      throw err;
+    }
 
-  if (isRedis) {
-    const memoryBackend = await createCache("memory");
-    await registry.registerBackend(memoryBackend);
+    if (defaultBackend.backend !== "memory" && !registry.hasBackend("memory")) {
+      const memoryBackend = await createCache("memory");
+      await registry.registerBackend(memoryBackend);
+    }
+  }
+
+  if (setup.warmers?.length) {
+    for (const warmer of setup.warmers) {
+      registry.registerWarmer(warmer);
+    }
+    await registry.startWarmers(setup.warmers.map(warmer => warmer.name));
   }
 
   return registry;
-}
\ No newline at end of file
+}
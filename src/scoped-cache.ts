@@ -1,12 +1,34 @@
+import { randomUUID } from "crypto";
+import { performance } from "perf_hooks";
 import {
   ICacheProvider,
   ICacheOptions,
   ICacheStats,
   CacheBackend,
   CacheKeyParts,
-  stableHash,
-  LoggerContract
+  createCacheKey,
+  LoggerContract,
+  CacheLoader,
+  ICacheSetOptions,
+  ICounterOptions,
+  IGetOrSetOptions,
+  IInvalidationBus,
+  InvalidationEvent,
+  InvalidationMessage,
+  PayloadEncryptor,
+  CacheError,
+  CacheEntrySource,
+  CacheEventListener,
+  CacheEventName,
+  ICacheEvents,
+  ICacheEntryMeta,
+  ICacheExportEntry,
+  IVersionedValue
 } from "./index.js";
+import { CacheEventEmitter } from "./cache-events.js";
+
+// Detaches a scope's backend "error" listener once the scope is garbage collected
+const backendListeners = new FinalizationRegistry<() => void>(detach => detach());
 
 /**
  * ScopedCache
@@ -15,14 +37,23 @@ import {
  * while applying service-specific options such as prefix, TTL, enabled flag, etc.
  *
  * This prevents cross-service contamination and ensures each service has its own namespace.
+ * Backend events for the scope's keys are re-emitted with the scope prefix removed.
  */
-export class ScopedCache<T = any> implements ICacheProvider<T> {
+export class ScopedCache<T = any> extends CacheEventEmitter<T> implements ICacheProvider<T> {
   readonly backend: CacheBackend;
   private readonly backendInstance: ICacheProvider<T>;
   private readonly options: Required<ICacheOptions>;
   readonly logger: LoggerContract | Console;
+  private invalidation?: { bus: IInvalidationBus; source: string; unsubscribe: () => void };
+  private readonly encryptor?: PayloadEncryptor;
+  // Backend listeners, attached once this scope has listeners for the event
+  private readonly forwarders = new Map<CacheEventName, (event: ICacheEvents<T>[CacheEventName]) => void>();
+  private counters = { hits: 0, misses: 0, sets: 0, deletes: 0, errors: 0, operations: 0, latencyMs: 0 };
+  private detachErrors?: () => void;
+  private disposed = false;
 
   constructor(backendInstance: ICacheProvider<T>, options: ICacheOptions = {}) {
+    super();
     this.backendInstance = backendInstance;
     this.backend = backendInstance.backend;
 
@@ -33,10 +64,97 @@ export class ScopedCache<T = any> implements ICacheProvider<T> {
       prefix: options.prefix ?? "",
       maxSize: backendOpts.maxSize!,
       enabled: options.enabled ?? backendOpts.enabled!,
-      logger: options.logger ?? backendOpts.logger!
+      logger: options.logger ?? backendOpts.logger!,
+      staleTtl: options.staleTtl ?? backendOpts.staleTtl ?? 0,
+      staleIfErrorTtl: options.staleIfErrorTtl ?? backendOpts.staleIfErrorTtl ?? 0,
+      onStale: options.onStale ?? backendOpts.onStale ?? (() => {}),
+      serializer: backendOpts.serializer!,
+      compression: backendOpts.compression ?? false,
+      // Not inherited: the backend encrypts its own payloads
+      encryption: options.encryption ?? false,
+      clone: backendOpts.clone ?? false
     };
 
     this.logger = this.options.logger;
+
+    if (this.options.encryption) {
+      this.encryptor = new PayloadEncryptor(this.options.encryption);
+    }
+
+    this.countBackendErrors();
+  }
+
+  /**
+   * Backends such as RedisCache log failures instead of throwing, so the scope
+   * counts "error" events for its keys. The listener only holds a weak
+   * reference, letting unused scopes be collected.
+   */
+  private countBackendErrors(): void {
+    const scope = new WeakRef(this);
+    const backend = this.backendInstance;
+    const listener = (event: ICacheEvents<T>["error"]) => {
+      const self = scope.deref();
+      if (self && event.key !== undefined && self.removePrefix(event.key) !== undefined) {
+        self.counters.errors++;
+      }
+    };
+
+    backend.on("error", listener);
+    this.detachErrors = () => backend.off("error", listener);
+    backendListeners.register(this, this.detachErrors, this);
+  }
+
+  // Times a backend call; failures it throws count as errors
+  private async track<R>(operation: () => Promise<R>): Promise<R> {
+    const start = performance.now();
+
+    try {
+      return await operation();
+    } catch (err) {
+      this.counters.errors++;
+      throw err;
+    } finally {
+      this.counters.operations++;
+      this.counters.latencyMs += performance.now() - start;
+    }
+  }
+
+  private countRead(value: T | undefined): T | undefined {
+    if (value === undefined) this.counters.misses++;
+    else this.counters.hits++;
+    return value;
+  }
+
+  /**
+   * With scope-level encryption, values reach the backend as base64
+   * AES-256-GCM envelopes, so any backend can hold them.
+   */
+  private seal(scopedKey: string, value: T): T {
+    if (!this.encryptor) return value;
+
+    const data = this.options.serializer.serialize(value);
+    return this.encryptor.encrypt(data, scopedKey).toString("base64") as unknown as T;
+  }
+
+  // Undecryptable entries count as misses
+  private unseal(scopedKey: string, stored: T | undefined): T | undefined {
+    if (!this.encryptor || stored === undefined) return stored;
+
+    try {
+      const data = typeof stored === "string" ? Buffer.from(stored, "base64") : undefined;
+
+      if (data && PayloadEncryptor.isEncrypted(data)) {
+        return this.options.serializer.deserialize(this.encryptor.decrypt(data, scopedKey)) as T;
+      }
+      if (this.encryptor.allowPlaintext) return stored;
+
+      throw new CacheError("Entry is not an encrypted envelope", "DECRYPTION_FAILED");
+    } catch (err: any) {
+      this.counters.errors++;
+      this.logger.error(`ScopedCache decryption error for key ${scopedKey}`, { err });
+      this.emit("error", { operation: "decrypt", error: err, key: this.removePrefix(scopedKey) ?? scopedKey });
+      return undefined;
+    }
   }
 
   private applyPrefix(key: string): string {
@@ -45,34 +163,236 @@ export class ScopedCache<T = any> implements ICacheProvider<T> {
       : key;
   }
 
-  generateKey(parts: Partial<CacheKeyParts>): string {
-    const { resource, operation, params } = parts;
+  // Returns undefined for backend keys outside this scope
+  private removePrefix(scopedKey: string): string | undefined {
+    if (!this.options.prefix) return scopedKey;
+
+    const prefix = `${this.options.prefix}:`;
+    return scopedKey.startsWith(prefix) ? scopedKey.slice(prefix.length) : undefined;
+  }
+
+  override on<E extends CacheEventName>(event: E, listener: CacheEventListener<T, E>): this {
+    super.on(event, listener);
+    this.forward(event);
+    return this;
+  }
+
+  override once<E extends CacheEventName>(event: E, listener: CacheEventListener<T, E>): this {
+    super.once(event, listener);
+    this.forward(event);
+    return this;
+  }
+
+  override off<E extends CacheEventName>(event: E, listener: CacheEventListener<T, E>): this {
+    super.off(event, listener);
+    if (this.listenerCount(event) === 0) this.unforward(event);
+    return this;
+  }
+
+  private forward(event: CacheEventName): void {
+    if (this.forwarders.has(event)) return;
+
+    const forwarder = (payload: ICacheEvents<T>[CacheEventName]) => {
+      const scoped = this.toScopedEvent(payload);
+      if (scoped) this.emit(event, scoped as ICacheEvents<T>[typeof event]);
+    };
+
+    this.forwarders.set(event, forwarder);
+    this.backendInstance.on(event, forwarder);
+  }
 
-    if (!params) {
-      return this.applyPrefix(`${resource}:${operation}`);
+  private unforward(event?: CacheEventName): void {
+    for (const [name, forwarder] of Array.from(this.forwarders)) {
+      if (event !== undefined && name !== event) continue;
+
+      this.backendInstance.off(name, forwarder);
+      this.forwarders.delete(name);
+    }
+  }
+
+  private toScopedEvent(payload: ICacheEvents<T>[CacheEventName]): ICacheEvents<T>[CacheEventName] | undefined {
+    if (!("key" in payload) || payload.key === undefined) return payload;
+
+    const key = this.removePrefix(payload.key);
+    if (key === undefined) return undefined;
+
+    if ("value" in payload && payload.value !== undefined && this.encryptor) {
+      return { ...payload, key, value: this.unseal(payload.key, payload.value) as T };
     }
+    return { ...payload, key };
+  }
+
+  generateKey(parts: Partial<CacheKeyParts>): string {
+    return this.applyPrefix(createCacheKey(parts as CacheKeyParts));
+  }
 
-    const hash = stableHash(params);
-    return this.applyPrefix(`${resource}:${operation}:${hash}`);
+  async versionedKey(parts: CacheKeyParts): Promise<string> {
+    const namespaceVersion = parts.namespace ? await this.getNamespaceVersion(parts.namespace) : 0;
+    return createCacheKey(parts, namespaceVersion);
+  }
+
+  // Versions are kept per scope: the backend counter is named after the scoped namespace
+  async getNamespaceVersion(namespace: string): Promise<number> {
+    return this.backendInstance.getNamespaceVersion(this.applyPrefix(namespace));
+  }
+
+  async bumpVersion(namespace: string): Promise<number> {
+    return this.backendInstance.bumpVersion(this.applyPrefix(namespace));
   }
 
   async get(key: string): Promise<T | undefined> {
     if (!this.options.enabled) return undefined;
-    return this.backendInstance.get(this.applyPrefix(key));
+    const scopedKey = this.applyPrefix(key);
+    const stored = await this.track(() => this.backendInstance.get(scopedKey));
+    return this.countRead(this.unseal(scopedKey, stored));
   }
 
-  async set(key: string, value: T, ttl?: number): Promise<void> {
+  async set(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<void> {
     if (!this.options.enabled) return;
-    const effectiveTTL = ttl ?? this.options.ttl;
-    return this.backendInstance.set(this.applyPrefix(key), value, effectiveTTL);
+    const scopedKey = this.applyPrefix(key);
+    await this.track(() =>
+      this.backendInstance.set(scopedKey, this.seal(scopedKey, value), this.withScopeDefaults(ttl))
+    );
+    this.counters.sets++;
+  }
+
+  private withScopeDefaults(ttl?: number | ICacheSetOptions): ICacheSetOptions {
+    const options = typeof ttl === "number" ? { ttl } : ttl ?? {};
+    return {
+      ...options,
+      ...(options.tags ? { tags: options.tags.map(tag => this.applyPrefix(tag)) } : {}),
+      ttl: options.ttl ?? this.options.ttl,
+      staleTtl: options.staleTtl ?? this.options.staleTtl,
+      staleIfErrorTtl: options.staleIfErrorTtl ?? this.options.staleIfErrorTtl
+    };
+  }
+
+  async mget(keys: string[]): Promise<Array<T | undefined>> {
+    if (!this.options.enabled) return keys.map(() => undefined);
+
+    const scopedKeys = keys.map(key => this.applyPrefix(key));
+    const values = await this.track(() => this.backendInstance.mget(scopedKeys));
+    return values.map((value, i) => this.countRead(this.unseal(scopedKeys[i]!, value)));
+  }
+
+  async mset(entries: Iterable<readonly [string, T]>, ttl?: number | ICacheSetOptions): Promise<void> {
+    if (!this.options.enabled) return;
+
+    const scoped = Array.from(entries, ([key, value]) => {
+      const scopedKey = this.applyPrefix(key);
+      return [scopedKey, this.seal(scopedKey, value)] as const;
+    });
+    await this.track(() => this.backendInstance.mset(scoped, this.withScopeDefaults(ttl)));
+    this.counters.sets += scoped.length;
+  }
+
+  async mdelete(keys: string[]): Promise<number> {
+    const scopedKeys = keys.map(key => this.applyPrefix(key));
+    const deleted = await this.track(() => this.backendInstance.mdelete(scopedKeys));
+    this.counters.deletes += deleted;
+
+    for (const key of scopedKeys) {
+      this.publishInvalidation({ type: "delete", key });
+    }
+
+    return deleted;
+  }
+
+  async getOrSet(key: string, loader: CacheLoader<T>, options: IGetOrSetOptions = {}): Promise<T> {
+    if (!this.options.enabled) return loader();
+
+    const scopedKey = this.applyPrefix(key);
+    const onStale = options.onStale ?? this.options.onStale;
+
+    // A call whose loader runs is a miss (concurrent callers sharing it count as hits)
+    let loaded = false;
+    const sealingLoader = async () => {
+      loaded = true;
+      const value = await loader();
+      return this.encryptor ? this.seal(scopedKey, value) : value;
+    };
+
+    const stored = await this.track(() =>
+      this.backendInstance.getOrSet(scopedKey, sealingLoader, {
+        ...options,
+        ...this.withScopeDefaults(options),
+        // Report keys as the scope's callers know them
+        onStale: event => onStale({ ...event, key })
+      })
+    );
+
+    this.countRead(loaded ? undefined : stored);
+    if (loaded && stored !== undefined) this.counters.sets++;
+
+    if (!this.encryptor) return stored;
+
+    const value = this.unseal(scopedKey, stored);
+    if (value !== undefined) return value;
+
+    // Unreadable entry: reload and overwrite it
+    const fresh = await loader();
+    await this.set(key, fresh, options);
+    return fresh;
+  }
+
+  // Counters are plain numbers: scope encryption does not apply to them
+  async increment(key: string, by = 1, options: ICounterOptions = {}): Promise<number> {
+    return this.track(() => this.backendInstance.increment(this.applyPrefix(key), by, options));
+  }
+
+  async decrement(key: string, by = 1, options: ICounterOptions = {}): Promise<number> {
+    return this.track(() => this.backendInstance.decrement(this.applyPrefix(key), by, options));
+  }
+
+  async wrap(parts: CacheKeyParts, loader: CacheLoader<T>, options: IGetOrSetOptions = {}): Promise<T> {
+    let key: string;
+    try {
+      key = await this.versionedKey(parts);
+    } catch (err: any) {
+      this.logger.warn(`Loading "${createCacheKey(parts)}" uncached: ${err?.message}`);
+      return loader();
+    }
+    return this.getOrSet(key, loader, options);
   }
 
   async delete(key: string): Promise<boolean> {
-    return this.backendInstance.delete(this.applyPrefix(key));
+    const scopedKey = this.applyPrefix(key);
+    const deleted = await this.track(() => this.backendInstance.delete(scopedKey));
+    if (deleted) this.counters.deletes++;
+    this.publishInvalidation({ type: "delete", key: scopedKey });
+    return deleted;
   }
 
   async has(key: string): Promise<boolean> {
-    return this.backendInstance.has(this.applyPrefix(key));
+    return this.track(() => this.backendInstance.has(this.applyPrefix(key)));
+  }
+
+  async getWithMeta(key: string): Promise<ICacheEntryMeta<T> | undefined> {
+    const scopedKey = this.applyPrefix(key);
+    const meta = await this.track(() => this.backendInstance.getWithMeta(scopedKey));
+    if (!meta) return undefined;
+
+    const value = this.unseal(scopedKey, meta.value);
+    if (value === undefined) return undefined;
+
+    const scoped: ICacheEntryMeta<T> = { ...meta, value };
+    const tags = meta.tags?.map(tag => this.removePrefix(tag)).filter((tag): tag is string => tag !== undefined);
+    if (tags?.length) scoped.tags = tags;
+    else delete scoped.tags;
+    return scoped;
+  }
+
+  // Defaults to the scope's ttl, which may differ from the backend's
+  async touch(key: string, ttl = this.options.ttl): Promise<boolean> {
+    return this.expire(key, ttl);
+  }
+
+  async expire(key: string, ttl: number): Promise<boolean> {
+    return this.track(() => this.backendInstance.expire(this.applyPrefix(key), ttl));
+  }
+
+  async persist(key: string): Promise<boolean> {
+    return this.track(() => this.backendInstance.persist(this.applyPrefix(key)));
   }
 
   async getKeys(pattern: string): Promise<string[]> {
@@ -80,6 +400,103 @@ export class ScopedCache<T = any> implements ICacheProvider<T> {
     return this.backendInstance.getKeys(scopedPattern);
   }
 
+  /** Exports the scope's entries with the scope prefix (and tag prefixes) removed. */
+  async *exportEntries(pattern = "*"): AsyncIterable<ICacheExportEntry<T>> {
+    if (!this.backendInstance.exportEntries) {
+      throw new CacheError(`The ${this.backend} backend does not support exportEntries`, "UNSUPPORTED_OPERATION");
+    }
+
+    for await (const entry of this.backendInstance.exportEntries(this.applyPrefix(pattern))) {
+      const key = this.removePrefix(entry.key);
+      if (key === undefined) continue;
+
+      const value = this.unseal(entry.key, entry.value);
+      if (value === undefined) continue;
+
+      const exported: ICacheExportEntry<T> = { key, value, remainingTtl: entry.remainingTtl };
+      const tags = entry.tags?.map(tag => this.removePrefix(tag)).filter((tag): tag is string => tag !== undefined);
+      if (tags?.length) exported.tags = tags;
+
+      yield exported;
+    }
+  }
+
+  async getVersioned(key: string): Promise<IVersionedValue<T> | undefined> {
+    const backend = this.versioningBackend();
+    const scopedKey = this.applyPrefix(key);
+    const stored = await this.track(() => backend.getVersioned!(scopedKey));
+    if (!stored) return undefined;
+
+    const value = this.unseal(scopedKey, stored.value);
+    return value === undefined ? undefined : { value, version: stored.version };
+  }
+
+  async setIfVersion(key: string, value: T, version: string, ttl?: number | ICacheSetOptions): Promise<boolean> {
+    const backend = this.versioningBackend();
+    if (!this.options.enabled) return false;
+
+    const scopedKey = this.applyPrefix(key);
+    const written = await this.track(() =>
+      backend.setIfVersion!(scopedKey, this.seal(scopedKey, value), version, this.withScopeDefaults(ttl))
+    );
+    if (written) this.counters.sets++;
+    return written;
+  }
+
+  async setIfAbsent(key: string, value: T, ttl?: number | ICacheSetOptions): Promise<boolean> {
+    const backend = this.versioningBackend();
+    if (!this.options.enabled) return false;
+
+    const scopedKey = this.applyPrefix(key);
+    const written = await this.track(() =>
+      backend.setIfAbsent!(scopedKey, this.seal(scopedKey, value), this.withScopeDefaults(ttl))
+    );
+    if (written) this.counters.sets++;
+    return written;
+  }
+
+  private versioningBackend(): ICacheProvider<T> {
+    if (!this.backendInstance.getVersioned || !this.backendInstance.setIfVersion || !this.backendInstance.setIfAbsent) {
+      throw new CacheError(`The ${this.backend} backend does not support versioned writes`, "UNSUPPORTED_OPERATION");
+    }
+    return this.backendInstance;
+  }
+
+  async acquireLock(key: string, token: string, ttl: number): Promise<boolean> {
+    const backend = this.lockingBackend();
+    return this.track(() => backend.acquireLock!(this.applyPrefix(key), token, ttl));
+  }
+
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    const backend = this.lockingBackend();
+    return this.track(() => backend.releaseLock!(this.applyPrefix(key), token));
+  }
+
+  async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+    const backend = this.lockingBackend();
+    return this.track(() => backend.extendLock!(this.applyPrefix(key), token, ttl));
+  }
+
+  private lockingBackend(): ICacheProvider<T> {
+    if (!this.backendInstance.acquireLock || !this.backendInstance.releaseLock || !this.backendInstance.extendLock) {
+      throw new CacheError(`The ${this.backend} backend does not support locks`, "UNSUPPORTED_OPERATION");
+    }
+    return this.backendInstance;
+  }
+
+  async importEntries(entries: CacheEntrySource<T>): Promise<number> {
+    let imported = 0;
+
+    for await (const { key, value, remainingTtl, tags } of entries) {
+      if (remainingTtl < 0) continue;
+
+      await this.set(key, value, { ttl: remainingTtl, ...(tags?.length ? { tags } : {}) });
+      imported++;
+    }
+
+    return imported;
+  }
+
   async deleteByPattern(pattern: string): Promise<void> {
     const scopedPattern = this.applyPrefix(pattern);
     return this.backendInstance.deleteByPattern(scopedPattern);
@@ -87,15 +504,75 @@ export class ScopedCache<T = any> implements ICacheProvider<T> {
 
   async deleteByPrefix(prefix: string): Promise<void> {
     const scopedPrefix = this.applyPrefix(prefix);
-    return this.backendInstance.deleteByPrefix(scopedPrefix);
+    await this.backendInstance.deleteByPrefix(scopedPrefix);
+    this.publishInvalidation({ type: "prefix", prefix: scopedPrefix });
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    const scopedTags = tags.map(tag => this.applyPrefix(tag));
+    await this.backendInstance.invalidateTags(scopedTags);
+    this.publishInvalidation({ type: "tags", tags: scopedTags });
   }
 
   async clear(): Promise<void> {
-    return this.backendInstance.deleteByPrefix(this.options.prefix);
+    await this.clearByPrefix();
+    this.counters = { hits: 0, misses: 0, sets: 0, deletes: 0, errors: 0, operations: 0, latencyMs: 0 };
   }
 
   async clearByPrefix(): Promise<void> {
-    return this.backendInstance.deleteByPrefix(this.options.prefix);
+    await this.backendInstance.deleteByPrefix(this.options.prefix);
+    this.publishInvalidation({ type: "clear" });
+  }
+
+  /**
+   * Applies delete, prefix-delete and clear events published by other
+   * instances of this scope to the local backend, and publishes this
+   * scope's own ones. Keys on the bus are backend keys (scope prefix included).
+   */
+  subscribeInvalidations(bus: IInvalidationBus): () => void {
+    this.unsubscribeInvalidations();
+
+    const source = randomUUID();
+    const unsubscribe = bus.subscribe(message => {
+      if (message.source === source) return;
+      this.applyInvalidation(message).catch((err: any) => {
+        this.logger.warn(`Failed to apply invalidation "${message.type}": ${err?.message}`);
+      });
+    });
+
+    this.invalidation = { bus, source, unsubscribe };
+    return () => this.unsubscribeInvalidations();
+  }
+
+  unsubscribeInvalidations(): void {
+    this.invalidation?.unsubscribe();
+    this.invalidation = undefined;
+  }
+
+  private async applyInvalidation(message: InvalidationMessage): Promise<void> {
+    switch (message.type) {
+      case "delete":
+        await this.backendInstance.delete(message.key);
+        break;
+      case "prefix":
+        await this.backendInstance.deleteByPrefix(message.prefix);
+        break;
+      case "tags":
+        await this.backendInstance.invalidateTags(message.tags);
+        break;
+      case "clear":
+        await this.backendInstance.deleteByPrefix(this.options.prefix);
+        break;
+    }
+  }
+
+  private publishInvalidation(event: InvalidationEvent): void {
+    if (!this.invalidation) return;
+
+    const { bus, source } = this.invalidation;
+    bus.publish({ ...event, source }).catch((err: any) => {
+      this.logger.warn(`Failed to publish invalidation "${event.type}": ${err?.message}`);
+    });
   }
 
   getOptions(): ICacheOptions {
@@ -106,8 +583,28 @@ export class ScopedCache<T = any> implements ICacheProvider<T> {
     Object.assign(this.options, options);
   }
 
+  /** Counters of this scope only; the shared backend keeps its own in its getStats(). */
   async getStats(): Promise<ICacheStats> {
-    return this.backendInstance.getStats();
+    const { hits, misses, sets, deletes, errors, operations, latencyMs } = this.counters;
+    const total = hits + misses;
+
+    return {
+      hits,
+      misses,
+      hitRate: total > 0 ? hits / total : 0,
+      size: await this.size(),
+      backend: this.backend,
+      scope: this.options.prefix,
+      sets,
+      deletes,
+      errors,
+      avgLatencyMs: operations > 0 ? latencyMs / operations : 0
+    };
+  }
+
+  /** False once disconnect() or dispose() has been called. */
+  get isActive(): boolean {
+    return !this.disposed;
   }
 
   async size(): Promise<number> {
@@ -116,6 +613,14 @@ export class ScopedCache<T = any> implements ICacheProvider<T> {
   }
 
   async disconnect(): Promise<void> {
+    this.disposed = true;
+    this.unsubscribeInvalidations();
+    this.unforward();
+    if (this.detachErrors) {
+      this.detachErrors();
+      backendListeners.unregister(this);
+      this.detachErrors = undefined;
+    }
     await this.clear();
   }
 
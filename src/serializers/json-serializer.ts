@@ -0,0 +1,20 @@
+import { stringify } from 'safe-stable-stringify';
+import type { ICacheSerializer } from '../interface.js';
+
+/**
+ * JsonSerializer
+ *
+ * Plain JSON (the historical RedisCache encoding). Dates come back as strings,
+ * Map/Set as `{}`, Buffers as `{ type, data }` and BigInt is not supported.
+ */
+export class JsonSerializer implements ICacheSerializer {
+  readonly name = 'json';
+
+  serialize(value: unknown): string {
+    return stringify(value) || '';
+  }
+
+  deserialize(data: string | Buffer): unknown {
+    return JSON.parse(data.toString());
+  }
+}
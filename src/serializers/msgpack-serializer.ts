@@ -0,0 +1,320 @@
+import type { ICacheSerializer } from '../interface.js';
+import { CacheError } from '../cacheError.js';
+
+// Extension types: -1 is the MessagePack timestamp, the others are this package's
+const EXT_TIMESTAMP = -1;
+const EXT_UNDEFINED = 1;
+const EXT_BIGINT = 2;
+const EXT_MAP = 3;
+const EXT_SET = 4;
+
+/**
+ * MessagePackSerializer
+ *
+ * Compact binary encoding following the MessagePack spec. Buffers are stored
+ * as raw bin, Dates as timestamps, and undefined, BigInt, Map and Set as
+ * extension types, so the same values round-trip as with TypedJsonSerializer.
+ */
+export class MessagePackSerializer implements ICacheSerializer {
+  readonly name = 'msgpack';
+
+  serialize(value: unknown): Buffer {
+    const writer = new Writer();
+    writer.write(value);
+    return writer.toBuffer();
+  }
+
+  deserialize(data: string | Buffer): unknown {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'binary') : data;
+    return new Reader(buffer).read();
+  }
+}
+
+class Writer {
+  private buffer = Buffer.allocUnsafe(256);
+  private offset = 0;
+
+  toBuffer(): Buffer {
+    return this.buffer.subarray(0, this.offset);
+  }
+
+  write(value: unknown): void {
+    switch (typeof value) {
+      case 'undefined':
+      case 'function':
+      case 'symbol':
+        return this.writeExt(EXT_UNDEFINED, Buffer.alloc(1));
+      case 'boolean':
+        return this.byte(value ? 0xc3 : 0xc2);
+      case 'number':
+        return this.writeNumber(value);
+      case 'bigint':
+        return this.writeExt(EXT_BIGINT, Buffer.from(value.toString(), 'utf8'));
+      case 'string':
+        return this.writeString(value);
+    }
+
+    if (value === null) return this.byte(0xc0);
+
+    if (value instanceof Date) return this.writeTimestamp(value);
+    if (Buffer.isBuffer(value) || value instanceof Uint8Array) return this.writeBinary(value);
+    if (value instanceof Map) {
+      return this.writeNested(EXT_MAP, Array.from(value).flat());
+    }
+    if (value instanceof Set) return this.writeNested(EXT_SET, Array.from(value));
+
+    if (Array.isArray(value)) {
+      this.header(value.length, 0x90, 16, 0xdc, 0xdd);
+      for (let i = 0; i < value.length; i++) this.write(value[i]);
+      return;
+    }
+
+    const entries = Object.entries(value as object);
+    this.header(entries.length, 0x80, 16, 0xde, 0xdf);
+    for (const [key, v] of entries) {
+      this.writeString(key);
+      this.write(v);
+    }
+  }
+
+  private writeNumber(value: number): void {
+    if (!Number.isSafeInteger(value)) {
+      this.ensure(9);
+      this.buffer[this.offset++] = 0xcb;
+      this.offset = this.buffer.writeDoubleBE(value, this.offset);
+      return;
+    }
+
+    if (value >= 0) {
+      if (value < 0x80) return this.byte(value);
+      if (value < 0x100) return this.bytes(0xcc, 1, b => b.writeUInt8(value, this.offset));
+      if (value < 0x10000) return this.bytes(0xcd, 2, b => b.writeUInt16BE(value, this.offset));
+      if (value < 0x100000000) return this.bytes(0xce, 4, b => b.writeUInt32BE(value, this.offset));
+      return this.bytes(0xcf, 8, b => b.writeBigUInt64BE(BigInt(value), this.offset));
+    }
+
+    if (value >= -32) return this.byte(value & 0xff);
+    if (value >= -0x80) return this.bytes(0xd0, 1, b => b.writeInt8(value, this.offset));
+    if (value >= -0x8000) return this.bytes(0xd1, 2, b => b.writeInt16BE(value, this.offset));
+    if (value >= -0x80000000) return this.bytes(0xd2, 4, b => b.writeInt32BE(value, this.offset));
+    return this.bytes(0xd3, 8, b => b.writeBigInt64BE(BigInt(value), this.offset));
+  }
+
+  private writeString(value: string): void {
+    const data = Buffer.from(value, 'utf8');
+    const length = data.length;
+
+    if (length < 32) this.byte(0xa0 | length);
+    else if (length < 0x100) this.bytes(0xd9, 1, b => b.writeUInt8(length, this.offset));
+    else if (length < 0x10000) this.bytes(0xda, 2, b => b.writeUInt16BE(length, this.offset));
+    else this.bytes(0xdb, 4, b => b.writeUInt32BE(length, this.offset));
+
+    this.raw(data);
+  }
+
+  private writeBinary(value: Uint8Array): void {
+    const length = value.length;
+
+    if (length < 0x100) this.bytes(0xc4, 1, b => b.writeUInt8(length, this.offset));
+    else if (length < 0x10000) this.bytes(0xc5, 2, b => b.writeUInt16BE(length, this.offset));
+    else this.bytes(0xc6, 4, b => b.writeUInt32BE(length, this.offset));
+
+    this.raw(value);
+  }
+
+  // timestamp 96: nanoseconds (uint32) + seconds (int64)
+  private writeTimestamp(value: Date): void {
+    const ms = value.getTime();
+    const seconds = Math.floor(ms / 1000);
+    const data = Buffer.alloc(12);
+    data.writeUInt32BE((ms - seconds * 1000) * 1_000_000, 0);
+    data.writeBigInt64BE(BigInt(seconds), 4);
+    this.writeExt(EXT_TIMESTAMP, data);
+  }
+
+  private writeNested(type: number, items: unknown[]): void {
+    const nested = new Writer();
+    nested.write(items);
+    this.writeExt(type, nested.toBuffer());
+  }
+
+  private writeExt(type: number, data: Buffer): void {
+    const fixed: Record<number, number> = { 1: 0xd4, 2: 0xd5, 4: 0xd6, 8: 0xd7, 16: 0xd8 };
+    const length = data.length;
+
+    if (fixed[length] !== undefined) this.byte(fixed[length]!);
+    else if (length < 0x100) this.bytes(0xc7, 1, b => b.writeUInt8(length, this.offset));
+    else if (length < 0x10000) this.bytes(0xc8, 2, b => b.writeUInt16BE(length, this.offset));
+    else this.bytes(0xc9, 4, b => b.writeUInt32BE(length, this.offset));
+
+    this.byte(type & 0xff);
+    this.raw(data);
+  }
+
+  private header(length: number, fix: number, fixLimit: number, code16: number, code32: number): void {
+    if (length < fixLimit) this.byte(fix | length);
+    else if (length < 0x10000) this.bytes(code16, 2, b => b.writeUInt16BE(length, this.offset));
+    else this.bytes(code32, 4, b => b.writeUInt32BE(length, this.offset));
+  }
+
+  private byte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.offset++] = value;
+  }
+
+  private bytes(code: number, size: number, write: (buffer: Buffer) => void): void {
+    this.ensure(1 + size);
+    this.buffer[this.offset++] = code;
+    write(this.buffer);
+    this.offset += size;
+  }
+
+  private raw(data: Uint8Array): void {
+    this.ensure(data.length);
+    this.buffer.set(data, this.offset);
+    this.offset += data.length;
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) return;
+
+    const grown = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.offset + size));
+    this.buffer.copy(grown, 0, 0, this.offset);
+    this.buffer = grown;
+  }
+}
+
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  read(): unknown {
+    const code = this.uint(1);
+
+    if (code < 0x80) return code;
+    if (code >= 0xe0) return code - 0x100;
+    if ((code & 0xf0) === 0x80) return this.readMap(code & 0x0f);
+    if ((code & 0xf0) === 0x90) return this.readArray(code & 0x0f);
+    if ((code & 0xe0) === 0xa0) return this.readString(code & 0x1f);
+
+    switch (code) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xc4: return this.readBinary(this.uint(1));
+      case 0xc5: return this.readBinary(this.uint(2));
+      case 0xc6: return this.readBinary(this.uint(4));
+      case 0xc7: return this.readExt(this.uint(1));
+      case 0xc8: return this.readExt(this.uint(2));
+      case 0xc9: return this.readExt(this.uint(4));
+      case 0xca: return this.advance(4, this.buffer.readFloatBE(this.offset));
+      case 0xcb: return this.advance(8, this.buffer.readDoubleBE(this.offset));
+      case 0xcc: return this.uint(1);
+      case 0xcd: return this.uint(2);
+      case 0xce: return this.uint(4);
+      case 0xcf: return Number(this.advance(8, this.buffer.readBigUInt64BE(this.offset)));
+      case 0xd0: return this.advance(1, this.buffer.readInt8(this.offset));
+      case 0xd1: return this.advance(2, this.buffer.readInt16BE(this.offset));
+      case 0xd2: return this.advance(4, this.buffer.readInt32BE(this.offset));
+      case 0xd3: return Number(this.advance(8, this.buffer.readBigInt64BE(this.offset)));
+      case 0xd4: return this.readExt(1);
+      case 0xd5: return this.readExt(2);
+      case 0xd6: return this.readExt(4);
+      case 0xd7: return this.readExt(8);
+      case 0xd8: return this.readExt(16);
+      case 0xd9: return this.readString(this.uint(1));
+      case 0xda: return this.readString(this.uint(2));
+      case 0xdb: return this.readString(this.uint(4));
+      case 0xdc: return this.readArray(this.uint(2));
+      case 0xdd: return this.readArray(this.uint(4));
+      case 0xde: return this.readMap(this.uint(2));
+      case 0xdf: return this.readMap(this.uint(4));
+    }
+
+    throw new CacheError(`Invalid MessagePack byte 0x${code.toString(16)}`, "DESERIALIZATION_ERROR");
+  }
+
+  private readArray(length: number): unknown[] {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i++) items.push(this.read());
+    return items;
+  }
+
+  private readMap(length: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = String(this.read());
+      result[key] = this.read();
+    }
+    return result;
+  }
+
+  private readString(length: number): string {
+    return this.buffer.toString('utf8', this.offset, this.advance(length, this.offset + length));
+  }
+
+  private readBinary(length: number): Buffer {
+    return Buffer.from(this.slice(length));
+  }
+
+  private readExt(length: number): unknown {
+    const type = this.buffer.readInt8(this.offset);
+    this.offset += 1;
+    const data = this.slice(length);
+
+    switch (type) {
+      case EXT_TIMESTAMP:
+        return readTimestamp(data);
+      case EXT_UNDEFINED:
+        return undefined;
+      case EXT_BIGINT:
+        return BigInt(data.toString('utf8'));
+      case EXT_MAP: {
+        const flat = new Reader(data).read() as unknown[];
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < flat.length; i += 2) map.set(flat[i], flat[i + 1]);
+        return map;
+      }
+      case EXT_SET:
+        return new Set(new Reader(data).read() as unknown[]);
+    }
+
+    throw new CacheError(`Unknown MessagePack extension type ${type}`, "DESERIALIZATION_ERROR");
+  }
+
+  private uint(size: 1 | 2 | 4): number {
+    const value = this.buffer.readUIntBE(this.offset, size);
+    this.offset += size;
+    return value;
+  }
+
+  private slice(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new CacheError('Truncated MessagePack data', "DESERIALIZATION_ERROR");
+    }
+    return this.buffer.subarray(this.offset, this.advance(length, this.offset + length));
+  }
+
+  // Moves past `size` bytes and hands back the value read at the old offset
+  private advance<V>(size: number, value: V): V {
+    this.offset += size;
+    return value;
+  }
+}
+
+function readTimestamp(data: Buffer): Date {
+  switch (data.length) {
+    case 4:
+      return new Date(data.readUInt32BE(0) * 1000);
+    case 8: {
+      const nanoseconds = data.readUInt32BE(0) >>> 2;
+      const seconds = (data.readUInt32BE(0) & 0x3) * 0x100000000 + data.readUInt32BE(4);
+      return new Date(seconds * 1000 + Math.floor(nanoseconds / 1_000_000));
+    }
+    case 12:
+      return new Date(Number(data.readBigInt64BE(4)) * 1000 + Math.floor(data.readUInt32BE(0) / 1_000_000));
+  }
+
+  throw new CacheError(`Invalid MessagePack timestamp length ${data.length}`, "DESERIALIZATION_ERROR");
+}
@@ -0,0 +1,110 @@
+import { stringify } from 'safe-stable-stringify';
+import type { ICacheSerializer } from '../interface.js';
+
+// Marker property of encoded special values
+const TYPE = '$t';
+
+type Encoded =
+  | null
+  | boolean
+  | number
+  | string
+  | Encoded[]
+  | { [key: string]: Encoded };
+
+/**
+ * TypedJsonSerializer
+ *
+ * JSON that round-trips Date, Map, Set, BigInt, Buffer, undefined and
+ * non-finite numbers. Special values are written as `{ "$t": type, "v": data }`;
+ * plain objects that happen to own a `$t` property are wrapped the same way.
+ */
+export class TypedJsonSerializer implements ICacheSerializer {
+  readonly name = 'typed-json';
+
+  serialize(value: unknown): string {
+    return stringify(encode(value)) || '';
+  }
+
+  deserialize(data: string | Buffer): unknown {
+    return decode(JSON.parse(data.toString()));
+  }
+}
+
+function tagged(type: string, v?: Encoded): Encoded {
+  return v === undefined ? { [TYPE]: type } : { [TYPE]: type, v };
+}
+
+function encode(value: unknown): Encoded {
+  switch (typeof value) {
+    case 'undefined':
+      return tagged('undefined');
+    case 'bigint':
+      return tagged('BigInt', value.toString());
+    case 'number':
+      return Number.isFinite(value) ? value : tagged('Number', String(value));
+    case 'string':
+    case 'boolean':
+      return value;
+    case 'function':
+    case 'symbol':
+      return tagged('undefined');
+  }
+
+  if (value === null) return null;
+
+  if (value instanceof Date) return tagged('Date', value.getTime());
+  if (Buffer.isBuffer(value)) return tagged('Buffer', value.toString('base64'));
+  if (value instanceof Map) {
+    return tagged('Map', Array.from(value, ([k, v]) => [encode(k), encode(v)]));
+  }
+  if (value instanceof Set) return tagged('Set', Array.from(value, encode));
+  if (Array.isArray(value)) return Array.from(value, encode);
+
+  const encoded: { [key: string]: Encoded } = {};
+  for (const [key, v] of Object.entries(value as object)) {
+    encoded[key] = encode(v);
+  }
+
+  return TYPE in encoded ? tagged('Object', encoded) : encoded;
+}
+
+function decode(value: Encoded): unknown {
+  if (Array.isArray(value)) return value.map(decode);
+  if (value === null || typeof value !== 'object') return value;
+
+  if (!(TYPE in value)) {
+    return decodeObject(value);
+  }
+
+  const v = value['v'];
+
+  switch (value[TYPE]) {
+    case 'undefined':
+      return undefined;
+    case 'BigInt':
+      return BigInt(v as string);
+    case 'Number':
+      return Number(v);
+    case 'Date':
+      return new Date(v as number);
+    case 'Buffer':
+      return Buffer.from(v as string, 'base64');
+    case 'Map':
+      return new Map((v as Encoded[][]).map(([k, val]) => [decode(k!), decode(val!)]));
+    case 'Set':
+      return new Set((v as Encoded[]).map(decode));
+    case 'Object':
+      return decodeObject(v as { [key: string]: Encoded });
+    default:
+      return decodeObject(value);
+  }
+}
+
+function decodeObject(value: { [key: string]: Encoded }): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    decoded[key] = decode(v);
+  }
+  return decoded;
+}
@@ -1,3 +1,8 @@
+import type { ICacheProvider, ICacheSerializer, IMetricsMeter } from "./interface.js";
+import type { CacheKeyParts } from "./cache-key.js";
+import type { ConnectionOptions } from "tls";
+import type { Cluster, ClusterNode, ClusterOptions, Redis, RedisOptions, SentinelAddress } from "ioredis";
+
 /** Minimal logger contract used by this package. */
 export interface LoggerContract {
   debug: (message: string, meta?: any) => void;
@@ -6,7 +11,10 @@ export interface LoggerContract {
   error: (message: string, meta?: any) => void;
 }
 
-export type CacheBackend = "memory" | "redis";
+export type BuiltinCacheBackend = "memory" | "redis" | "memcached" | "file" | "tiered";
+
+/** Provider type tag: a built-in backend, or a custom one added with registerBackendFactory(). */
+export type CacheBackend = BuiltinCacheBackend | (string & {});
 
 export interface ICacheOptions {
   // Core options for all caches
@@ -15,8 +23,51 @@ export interface ICacheOptions {
   enabled?: boolean;            // Enable/disable cache
   logger?: LoggerContract | Console
 
+  // Stale serving (both windows start at the entry's soft expiry, i.e. after ttl)
+  staleTtl?: number;            // Serve stale while a background refresh runs (getOrSet)
+  staleIfErrorTtl?: number;     // Serve stale when the refresh fails
+  onStale?: (event: ICacheStaleEvent) => void;
+
+  // Value encoding (default JsonSerializer)
+  serializer?: ICacheSerializer;
+  compression?: ICompressionOptions | false;  // Remote and file backends only (default off)
+  encryption?: IEncryptionOptions | false;    // Remote and file backends, ScopedCache (default off)
+
   // Memory-cache specific
   maxSize?: number;             // Maximum items (undefined = default 1000)
+  clone?: boolean;              // Round-trip values through the serializer on write and read
+}
+
+export type CompressionAlgorithm = "gzip" | "deflate" | "brotli";
+
+export interface ICompressionOptions {
+  algorithm: CompressionAlgorithm;
+  threshold?: number;           // Minimum payload size in bytes (default 1024)
+  level?: number;               // zlib level / brotli quality
+}
+
+export interface IEncryptionKey {
+  id: string;                   // Stored with every entry (max 255 bytes)
+  key: Buffer | string;         // 32 bytes, or a base64 string of 32 bytes
+}
+
+export interface IEncryptionOptions {
+  keys: IEncryptionKey[];       // All keys can decrypt
+  primaryKeyId?: string;        // Key used to encrypt (default: first key)
+  allowPlaintext?: boolean;     // Accept entries written before encryption was enabled
+}
+
+export interface ICompressionStats {
+  compressedWrites: number;
+  bytesSaved: number;
+  compressTimeMs: number;
+  decompressTimeMs: number;
+}
+
+export interface ICacheTierStats {
+  backend: CacheBackend;
+  hits: number;
+  size: number;
 }
 
 export interface ICacheStats {
@@ -25,15 +76,317 @@ export interface ICacheStats {
   hitRate: number;
   size: number;
   backend: CacheBackend;
+  staleServed?: number;
+
+  // Scoped-cache specific (counters of the scope alone)
+  scope?: string;
+  sets?: number;
+  deletes?: number;
+  errors?: number;
+  avgLatencyMs?: number;
 
   // Memory-cache specific
   evictions?: number;
   maxSize?: number;
   ttl?: number;
+
+  // Remote and file backends with compression
+  compression?: ICompressionStats;
+
+  // Redis-cache specific, when a circuit breaker is configured
+  circuitBreaker?: ICircuitBreakerStats;
+
+  // File-cache specific
+  bytes?: number;
+  maxBytes?: number;
+
+  // Tiered-cache specific
+  tiers?: ICacheTierStats[];
+}
+
+export interface IScopedCacheInfo {
+  name: string;                 // Registry instance the scope wraps
+  backend: CacheBackend;
+  prefix: string;
+  stats: ICacheStats;
+}
+
+export type TierConfig =
+  | CacheBackend
+  | {
+      backend: CacheBackend;
+      ttl?: number;             // Caps the TTL written to this tier
+      options?: ICacheOptions;  // Merged over the shared options for this tier
+    };
+
+export interface IFileCacheOptions {
+  directory: string;            // Created if missing
+  maxBytes?: number;            // Size budget of all entry files (default 100 MB, 0 = unlimited)
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface ICircuitBreakerOptions {
+  failureThreshold?: number;    // Consecutive failures that open the breaker (default 5)
+  openTimeout?: number;         // Ms to stay open before probing (default 30_000)
+  halfOpenProbes?: number;      // Calls let through at once while half-open (default 1)
+  callTimeout?: number;         // Ms after which a pending call counts as failed (default: none)
+  fallback?: ICacheProvider;    // Serves operations while open (default: fail fast)
+}
+
+export interface ICircuitBreakerStats {
+  state: CircuitState;
+  failures: number;             // Consecutive failures so far
+  opened: number;               // Times the breaker has opened
+  rejected: number;             // Calls refused while open
+  openedAt?: number;            // Epoch ms of the last opening
+}
+
+/** A standalone or cluster ioredis client; RedisCache works with either. */
+export type RedisConnection = Redis | Cluster;
+
+/**
+ * How createRedisClient connects. One topology applies, checked in order:
+ * `cluster`, `sentinels`, `url`, `host`; with none of them REDIS_URL is used.
+ */
+export interface IRedisConnectionOptions {
+  url?: string;                 // "redis://" or "rediss://" (TLS)
+  host?: string;
+  port?: number;                // Default 6379
+  username?: string;
+  password?: string;
+  db?: number;
+  tls?: boolean | ConnectionOptions;
+
+  // Sentinel: the master group `name` is resolved through these sentinels
+  sentinels?: Array<Partial<SentinelAddress>>;
+  name?: string;
+  sentinelPassword?: string;
+
+  // Cluster: seed nodes; every master is discovered from them
+  cluster?: { nodes: ClusterNode[]; options?: ClusterOptions };
+
+  maxRetriesPerRequest?: number;  // Default 2
+  enableOfflineQueue?: boolean;   // Default false (fail fast while disconnected)
+  redisOptions?: RedisOptions;    // Raw ioredis options, applied last
+}
+
+export interface IRedisCacheOptions extends ICacheOptions {
+  circuitBreaker?: ICircuitBreakerOptions;
+}
+
+export interface ICreateCacheOptions extends ICacheOptions {
+  // Redis-cache specific: connection config or a ready client (default: REDIS_URL)
+  redis?: IRedisConnectionOptions | RedisConnection;
+  circuitBreaker?: ICircuitBreakerOptions;
+
+  // Tiered-cache specific: ordered fastest first (default ["memory", "redis"])
+  tiers?: TierConfig[];
+
+  // File-cache specific (default directory: CACHE_DIR or <tmpdir>/cachejs)
+  file?: IFileCacheOptions;
+}
+
+/** Builds a provider of a custom backend type; its `backend` should be that type. */
+export type CacheBackendFactory = (options: ICreateCacheOptions) => ICacheProvider | Promise<ICacheProvider>;
+
+export interface IRegisterBackendOptions {
+  name?: string;                // Instance name (default: the provider's type, e.g. "redis")
+  isDefault?: boolean;
+}
+
+export interface IRegisteredBackend {
+  name: string;
+  type: CacheBackend;
+  isDefault: boolean;
 }
 
+export type InvalidationEvent =
+  | { type: "delete"; key: string }
+  | { type: "prefix"; prefix: string }
+  | { type: "tags"; tags: string[] }
+  | { type: "clear" };
+
+export type InvalidationMessage = InvalidationEvent & {
+  source: string;               // Id of the publishing cache instance
+};
+
+export interface ILoaderLockOptions {
+  ttl?: number;                 // Lock expiry in ms (default 5000)
+  waitTimeout?: number;         // Max time to wait for another instance's loader (default = ttl)
+  pollInterval?: number;        // Delay between polls while waiting (default 50)
+}
+
+export interface ILockRetryOptions {
+  retries?: number;             // Attempts after the first one (default 0)
+  delay?: number;               // Ms between attempts (default 100)
+}
+
+export interface ILockOptions {
+  ttl?: number;                 // Lock expiry in ms (default 10000)
+  retry?: ILockRetryOptions;
+}
+
+export interface IWithLockOptions extends ILockOptions {
+  extendEvery?: number;         // Renew the lock every N ms while fn runs (default ttl / 3)
+}
+
+/** A held lock, as returned by CacheLock.acquire(). */
+export interface ILockHandle {
+  key: string;
+  token: string;                // Identifies the owner; release and extend compare it
+  ttl: number;
+}
+
+export interface ICacheSetOptions {
+  ttl?: number;                 // Milliseconds, falls back to the cache TTL
+  staleTtl?: number;            // Falls back to ICacheOptions.staleTtl
+  staleIfErrorTtl?: number;     // Falls back to ICacheOptions.staleIfErrorTtl
+  tags?: string[];              // Invalidate together with invalidateTags()
+}
+
+export interface ICounterOptions {
+  ttl?: number;                 // Expiry in ms, renewed by every call (default: an existing counter keeps its expiry, a new one gets the cache ttl)
+}
+
+export interface ICacheStaleEvent {
+  key: string;
+  reason: "revalidate" | "error";
+  age: number;                  // Milliseconds since the entry was written
+  error?: unknown;              // Set when reason is "error"
+}
+
+/** Payloads of the cache lifecycle events; keys are reported without the provider's prefix. */
+export interface ICacheEvents<T = any> {
+  hit: { key: string; value: T };
+  miss: { key: string };
+  set: { key: string; value: T; ttl: number };   // ttl: hard TTL applied by the backend
+  delete: { key: string };
+  evict: { key: string; value?: T };             // Dropped for space (LRU or Redis maxmemory)
+  expire: { key: string; value?: T };            // Dropped by the backend's TTL
+  error: { operation: string; error: unknown; key?: string };
+}
+
+export type CacheEventName = keyof ICacheEvents;
+
+export type CacheEventListener<T, E extends CacheEventName> = (event: ICacheEvents<T>[E]) => void;
+
+export interface ICacheMetricsOptions {
+  namespace?: string;           // Metric name prefix (default "cachejs")
+  buckets?: number[];           // Latency histogram buckets in seconds
+  meter?: IMetricsMeter;        // OpenTelemetry Meter to mirror every measurement to
+}
+
+export interface IGetOrSetOptions extends ICacheSetOptions {
+  onStale?: (event: ICacheStaleEvent) => void;  // Overrides ICacheOptions.onStale
+
+  // Redis-cache specific: cross-process single-flight using a short lock key
+  lock?: boolean | ILoaderLockOptions;
+}
+
+export type CacheLoader<T> = () => Promise<T> | T;
+
 export interface ICacheEntry<T> {
   value: T;
-  // No expiresAt — TTL is backend-managed
+  createdAt: number;            // Epoch ms when the entry was written
+  staleAt?: number;             // Soft expiry, only set when a stale window applies
+  staleTtl?: number;
+  staleIfErrorTtl?: number;
+  tags?: string[];
+  version?: number;             // MemoryCache write counter, compared by setIfVersion()
+  // No expiresAt — hard TTL is backend-managed
   // No accessedAt — LRU handles recency internally
-}
\ No newline at end of file
+}
+
+/**
+ * A stored entry as returned by `peekEntry()`, fresh or stale, with the
+ * backend's remaining hard TTL in ms (0 = never expires).
+ */
+export interface IStoredEntry<T = any> {
+  entry: ICacheEntry<T>;
+  ttl: number;
+}
+
+/**
+ * A fresh entry as returned by `getWithMeta()`. Entries with a stale window
+ * report their soft expiry (`staleAt`) as `expiresAt`.
+ */
+export interface ICacheEntryMeta<T = any> {
+  value: T;
+  createdAt: number;            // Epoch ms when written, 0 = unknown (e.g. Redis counters)
+  expiresAt: number;            // Epoch ms, 0 = never expires
+  remainingTtl: number;         // Ms until expiresAt, 0 = never expires
+  size: number;                 // Approximate bytes: stored size on Redis and FileCache, serialized size elsewhere
+  tags?: string[];
+}
+/**
+ * A value read by `getVersioned()`. The version is an opaque token: a write
+ * counter on MemoryCache, a hash of the stored payload on RedisCache.
+ */
+export interface IVersionedValue<T = any> {
+  value: T;
+  version: string;
+}
+
+/**
+ * One entry produced by `exportEntries()` and accepted by `importEntries()`.
+ * Keys are relative to the exporting cache (its prefix is not included).
+ */
+export interface ICacheExportEntry<T = any> {
+  key: string;
+  value: T;
+  remainingTtl: number;         // Ms until the entry goes stale, 0 = never expires
+  tags?: string[];
+}
+
+export type CacheEntrySource<T> = Iterable<ICacheExportEntry<T>> | AsyncIterable<ICacheExportEntry<T>>;
+
+export type WarmerKey = string | CacheKeyParts;
+
+export type WarmerKeySource =
+  | Iterable<WarmerKey>
+  | AsyncIterable<WarmerKey>
+  | (() => Iterable<WarmerKey> | AsyncIterable<WarmerKey> | Promise<Iterable<WarmerKey>>);
+
+/**
+ * A warm-up job registered on CacheRegistry. Each key is loaded and written to
+ * the warmer's scope; keys given as CacheKeyParts resolve like wrap() keys
+ * (createCacheKey with the namespace version).
+ */
+export interface ICacheWarmerOptions<T = any> {
+  name: string;
+  keys: WarmerKeySource;        // Key list, or a generator called on every run
+  loader: (key: string, parts?: CacheKeyParts) => Promise<T | undefined> | T | undefined;
+  backend?: string;             // Registry instance name (default: the registry's default backend)
+  options?: Partial<ICacheOptions>;  // Scope options (prefix, ttl, ...)
+  setOptions?: ICacheSetOptions;     // Per-entry TTL and tags
+  concurrency?: number;         // Loaders running at once (default 4)
+  interval?: number;            // Re-run every N ms (default: startup only)
+  runOnStart?: boolean;         // Default true
+  critical?: boolean;           // Startup waits for this warmer before the registry is ready
+}
+
+export interface IWarmerReport {
+  name: string;
+  loaded: number;
+  skipped: number;              // Loader returned undefined
+  failed: number;
+  durationMs: number;
+}
+
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window-log";
+
+export interface IRateLimiterOptions {
+  limit: number;                // Requests allowed per window
+  window: number;               // Window length in ms
+  algorithm?: RateLimitAlgorithm;  // Default "fixed-window"
+  prefix?: string;              // Scope prefix of the limiter's keys (default "ratelimit")
+}
+
+export interface IRateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;            // Requests left in the current window
+  resetAt: number;              // Epoch ms at which the window resets (fixed) or the oldest request leaves it (log)
+  retryAfter: number;           // Ms to wait before retrying, 0 when allowed
+}
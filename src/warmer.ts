@@ -0,0 +1,149 @@
+import { performance } from 'perf_hooks';
+import type { ICacheProvider } from './interface.js';
+import type { ICacheWarmerOptions, IWarmerReport, LoggerContract, WarmerKey } from './types.js';
+import { CacheError } from './cacheError.js';
+import { createCacheKey } from './cache-key.js';
+
+// Progress is logged (at debug level) every this many keys
+const PROGRESS_EVERY = 100;
+
+async function* toAsyncKeys(source: Iterable<WarmerKey> | AsyncIterable<WarmerKey>): AsyncGenerator<WarmerKey> {
+  for await (const key of source) yield key;
+}
+
+/**
+ * CacheWarmer
+ *
+ * Runs one registered warm-up job: resolves its keys, loads them with bounded
+ * concurrency and writes the values to the warmer's scope. Concurrent run()
+ * calls share the run in progress. Created by CacheRegistry.registerWarmer().
+ */
+export class CacheWarmer<T = any> {
+  readonly name: string;
+  private cache?: ICacheProvider<T>;
+  private running?: Promise<IWarmerReport>;
+  private timer?: ReturnType<typeof setInterval>;
+  private lastReport?: IWarmerReport;
+
+  constructor(
+    private readonly options: ICacheWarmerOptions<T>,
+    private readonly resolveCache: () => ICacheProvider<T>,
+    private readonly logger: LoggerContract | Console = console
+  ) {
+    this.name = options.name;
+  }
+
+  get critical(): boolean {
+    return this.options.critical ?? false;
+  }
+
+  get runOnStart(): boolean {
+    return this.options.runOnStart ?? true;
+  }
+
+  /** True once a run has completed (even with per-key failures). */
+  get hasCompleted(): boolean {
+    return this.lastReport !== undefined;
+  }
+
+  getLastReport(): IWarmerReport | undefined {
+    return this.lastReport && { ...this.lastReport };
+  }
+
+  run(): Promise<IWarmerReport> {
+    this.running ??= this.warm().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  /** Re-runs the warmer every `interval` ms; a run still in progress is not overlapped. */
+  schedule(): void {
+    const { interval } = this.options;
+    if (!interval || interval <= 0 || this.timer) return;
+
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.run().catch(() => {}); // Already logged by warm()
+    }, interval);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async warm(): Promise<IWarmerReport> {
+    const start = performance.now();
+    const report: IWarmerReport = { name: this.name, loaded: 0, skipped: 0, failed: 0, durationMs: 0 };
+
+    let keys: AsyncGenerator<WarmerKey>;
+    try {
+      this.cache ??= this.resolveCache();
+      const source = typeof this.options.keys === 'function' ? await this.options.keys() : this.options.keys;
+      keys = toAsyncKeys(source);
+    } catch (err: any) {
+      this.logger.error(`CacheWarmer - "${this.name}" could not start: ${err?.message}`, { err });
+      throw new CacheError(`Warmer "${this.name}" failed: ${err?.message}`, 'WARMER_FAILED');
+    }
+
+    this.logger.info(`CacheWarmer - "${this.name}" started`);
+
+    const concurrency = Math.max(1, this.options.concurrency ?? 4);
+    let processed = 0;
+
+    const worker = async () => {
+      for (let next = await keys.next(); !next.done; next = await keys.next()) {
+        await this.warmKey(this.cache!, next.value, report);
+
+        if (++processed % PROGRESS_EVERY === 0) {
+          this.logger.debug(`CacheWarmer - "${this.name}" warmed ${processed} keys`);
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: concurrency }, worker));
+    } catch (err: any) {
+      // Only the key source can throw here; per-key failures are counted
+      this.logger.error(`CacheWarmer - "${this.name}" aborted after ${processed} keys: ${err?.message}`, { err });
+      throw new CacheError(`Warmer "${this.name}" failed: ${err?.message}`, 'WARMER_FAILED');
+    }
+
+    report.durationMs = performance.now() - start;
+    this.lastReport = report;
+
+    const summary =
+      `CacheWarmer - "${this.name}" finished in ${Math.round(report.durationMs)}ms: ` +
+      `${report.loaded} loaded, ${report.skipped} skipped, ${report.failed} failed`;
+
+    if (report.failed > 0) this.logger.warn(summary);
+    else this.logger.info(summary);
+
+    return { ...report };
+  }
+
+  private async warmKey(cache: ICacheProvider<T>, item: WarmerKey, report: IWarmerReport): Promise<void> {
+    const parts = typeof item === 'string' ? undefined : item;
+    let key = parts ? createCacheKey(parts) : (item as string);
+
+    try {
+      // Fails while the namespace version is unknown, rather than warming another keyspace
+      if (parts) key = await cache.versionedKey(parts);
+
+      const value = await this.options.loader(key, parts);
+
+      if (value === undefined) {
+        report.skipped++;
+        return;
+      }
+
+      await cache.set(key, value, this.options.setOptions);
+      report.loaded++;
+    } catch (err: any) {
+      report.failed++;
+      this.logger.warn(`CacheWarmer - "${this.name}" failed to warm key "${key}": ${err?.message}`);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// Test file for batch operations (mget / mset / mdelete)
+/// <reference types="@types/jest" />
+import { MemoryCache, ScopedCache, TieredCache } from '../src/index.ts';
+
+describe('Batch Operations', () => {
+  test('MemoryCache should get, set and delete many keys', async () => {
+    const cache = new MemoryCache<number>();
+
+    await cache.mset([['a', 1], ['b', 2], ['c', 3]]);
+    expect(await cache.mget(['a', 'missing', 'c'])).toEqual([1, undefined, 3]);
+
+    const stats = await cache.getStats();
+    expect(stats.hits).toBe(2);
+    expect(stats.misses).toBe(1);
+
+    expect(await cache.mdelete(['a', 'b', 'missing'])).toBe(2);
+    expect(await cache.mget(['a', 'b', 'c'])).toEqual([undefined, undefined, 3]);
+  });
+
+  test('mset should accept a Map and a shared TTL', async () => {
+    const cache = new MemoryCache<string>();
+
+    await cache.mset(new Map([['x', 'X'], ['y', 'Y']]), 1000);
+    expect(Math.round((await cache.getRemainingTTL('x'))!)).toBeLessThanOrEqual(1000);
+  });
+
+  test('ScopedCache should apply its prefix', async () => {
+    const backend = new MemoryCache();
+    const scoped = new ScopedCache(backend, { prefix: 'svc' });
+
+    await scoped.mset([['1', 'one'], ['2', 'two']]);
+    expect(await backend.mget(['svc:1', 'svc:2'])).toEqual(['one', 'two']);
+    expect(await scoped.mget(['1', '2'])).toEqual(['one', 'two']);
+
+    expect(await scoped.mdelete(['1'])).toBe(1);
+    expect(await backend.has('svc:1')).toBe(false);
+  });
+
+  test('TieredCache should fall through per key and backfill', async () => {
+    const l1 = new MemoryCache();
+    const l2 = new MemoryCache();
+    const cache = new TieredCache([l1, l2]);
+
+    await l1.set('a', 'A1');
+    await l2.set('b', 'B2');
+
+    expect(await cache.mget(['a', 'b', 'c'])).toEqual(['A1', 'B2', undefined]);
+    expect(await l1.get('b')).toBe('B2');
+    expect((await cache.getStats()).tiers?.map(t => t.hits)).toEqual([1, 1]);
+  });
+});
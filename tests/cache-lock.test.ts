@@ -0,0 +1,114 @@
+// Test file for CacheLock on MemoryCache and RedisCache
+/// <reference types="@types/jest" />
+import { CacheError, CacheLock, MemoryCache, RedisCache, ScopedCache } from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// SET NX PX and the two compare-and-act scripts, on a Map with expiry times
+function fakeRedis() {
+  const data = new Map<string, { value: string; expiresAt: number }>();
+  const live = (key: string) => {
+    const item = data.get(key);
+    return item && item.expiresAt > Date.now() ? item : undefined;
+  };
+
+  return {
+    data,
+    async set(key: string, value: string, _px: 'PX', ttl: number, _nx: 'NX') {
+      if (live(key)) return null;
+      data.set(key, { value, expiresAt: Date.now() + ttl });
+      return 'OK';
+    },
+    async eval(script: string, _keys: number, key: string, token: string, ttl?: number) {
+      const item = live(key);
+      if (item?.value !== token) return 0;
+
+      if (script.includes('pexpire')) item.expiresAt = Date.now() + Number(ttl);
+      else data.delete(key);
+      return 1;
+    }
+  };
+}
+
+describe('CacheLock', () => {
+  test('should exclude a second owner until release', async () => {
+    const lock = new CacheLock(new MemoryCache({ logger: silent }));
+
+    const first = await lock.acquire('report');
+    expect(first).toBeDefined();
+    expect(await lock.acquire('report')).toBeUndefined();
+
+    expect(await lock.release(first!)).toBe(true);
+    expect(await lock.release(first!)).toBe(false);
+    expect(await lock.acquire('report')).toBeDefined();
+  });
+
+  test('should retry until the lock expires', async () => {
+    const lock = new CacheLock(new MemoryCache({ logger: silent }));
+    await lock.acquire('report', { ttl: 30 });
+
+    const second = await lock.acquire('report', { retry: { retries: 5, delay: 10 } });
+
+    expect(second).toBeDefined();
+  });
+
+  test('should not let a previous owner release or extend a taken-over lock', async () => {
+    const lock = new CacheLock(new MemoryCache({ logger: silent }));
+    const stale = (await lock.acquire('report', { ttl: 10 }))!;
+    await sleep(20);
+    const current = (await lock.acquire('report'))!;
+
+    expect(await lock.extend(stale)).toBe(false);
+    expect(await lock.release(stale)).toBe(false);
+    expect(await lock.extend(current, 5000)).toBe(true);
+    expect(current.ttl).toBe(5000);
+  });
+
+  test('withLock should auto-extend while fn runs and release afterwards', async () => {
+    const lock = new CacheLock(new MemoryCache({ logger: silent }));
+
+    const result = await lock.withLock('report', async signal => {
+      await sleep(80);
+      expect(await lock.acquire('report')).toBeUndefined();
+      return signal.aborted ? 'aborted' : 'done';
+    }, { ttl: 30 });
+
+    expect(result).toBe('done');
+    expect(await lock.acquire('report')).toBeDefined();
+  });
+
+  test('withLock should throw when the lock is busy', async () => {
+    const lock = new CacheLock(new MemoryCache({ logger: silent }));
+    await lock.acquire('report');
+
+    await expect(lock.withLock('report', () => 1)).rejects.toMatchObject({ code: 'LOCK_NOT_ACQUIRED' });
+  });
+
+  test('should use SET NX PX and compare-and-delete on Redis', async () => {
+    const redis = fakeRedis();
+    const lock = new CacheLock(new RedisCache(redis as any, { prefix: 'app', logger: silent }));
+
+    const held = (await lock.acquire('report'))!;
+    expect(redis.data.get('app:__lock__:report')?.value).toBe(held.token);
+    expect(await lock.acquire('report')).toBeUndefined();
+
+    expect(await lock.extend(held, 60_000)).toBe(true);
+    expect(redis.data.get('app:__lock__:report')!.expiresAt).toBeGreaterThan(Date.now() + 50_000);
+
+    expect(await lock.release({ ...held, token: 'someone-else' })).toBe(false);
+    expect(await lock.release(held)).toBe(true);
+    expect(redis.data.has('app:__lock__:report')).toBe(false);
+  });
+
+  test('should prefix locks of a scope and reject backends without locks', async () => {
+    const backend = new MemoryCache({ logger: silent });
+    const jobs = new CacheLock(new ScopedCache(backend, { prefix: 'jobs' }));
+
+    await jobs.acquire('report');
+
+    expect(await new CacheLock(backend).acquire('report')).toBeDefined();
+    expect(await new CacheLock(backend).acquire('jobs:report')).toBeUndefined();
+    expect(() => new CacheLock({ backend: 'custom' } as any)).toThrow(CacheError);
+  });
+});
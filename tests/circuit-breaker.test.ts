@@ -0,0 +1,138 @@
+// Test file for CircuitBreaker and its use in RedisCache
+/// <reference types="@types/jest" />
+import { CacheError, CircuitBreaker, MemoryCache, RedisCache, isCircuitOpenError } from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const fail = () => Promise.reject(new Error('connection refused'));
+
+// Just enough of an ioredis client for get/set; `down` makes every command fail
+function fakeRedis() {
+  const data = new Map<string, Buffer>();
+  const client = {
+    down: false,
+    calls: 0,
+    async getBuffer(key: string) {
+      client.calls++;
+      if (client.down) throw new Error('connection refused');
+      return data.get(key) ?? null;
+    },
+    async set(key: string, value: string | Buffer) {
+      client.calls++;
+      if (client.down) throw new Error('connection refused');
+      data.set(key, Buffer.from(value));
+      return 'OK';
+    }
+  };
+  return client;
+}
+
+describe('CircuitBreaker', () => {
+  test('should open after consecutive failures and fail fast', async () => {
+    const states: string[] = [];
+    const breaker = new CircuitBreaker({ failureThreshold: 2, openTimeout: 1000 }, state => states.push(state));
+    const run = jest.fn(fail);
+
+    await expect(breaker.execute(run)).rejects.toThrow('connection refused');
+    await expect(breaker.execute(run)).rejects.toThrow('connection refused');
+    await expect(breaker.execute(run)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(states).toEqual(['open']);
+    expect(breaker.getStats()).toMatchObject({ state: 'open', opened: 1, rejected: 1 });
+  });
+
+  test('should reset the failure count on success', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await breaker.execute(async () => 'ok');
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  test('should probe when half-open and close or re-open', async () => {
+    const states: string[] = [];
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openTimeout: 20 }, state => states.push(state));
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await sleep(30);
+    await expect(breaker.execute(fail)).rejects.toThrow('connection refused');
+    expect(breaker.getState()).toBe('open');
+
+    await sleep(30);
+    expect(await breaker.execute(async () => 'ok')).toBe('ok');
+    expect(states).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+  });
+
+  test('should let a limited number of probes through', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openTimeout: 10, halfOpenProbes: 1 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await sleep(20);
+
+    const probe = breaker.execute(() => sleep(20).then(() => 'ok'));
+    await expect(breaker.execute(async () => 'second')).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+    expect(await probe).toBe('ok');
+  });
+
+  test('should count slow calls as failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, callTimeout: 10 });
+
+    await expect(breaker.execute(() => sleep(50))).rejects.toMatchObject({ code: 'CIRCUIT_TIMEOUT' });
+    expect(breaker.getState()).toBe('open');
+  });
+});
+
+describe('RedisCache circuit breaker', () => {
+  test('should fail fast while open and report stats', async () => {
+    const redis = fakeRedis();
+    const errors: unknown[] = [];
+    const cache = new RedisCache(redis as any, {
+      logger: silent,
+      circuitBreaker: { failureThreshold: 2, openTimeout: 60_000 }
+    });
+    cache.on('error', ({ error }) => errors.push(error));
+
+    redis.down = true;
+    await cache.get('a');
+    await cache.get('a');
+    const callsWhenOpened = redis.calls;
+
+    expect(await cache.get('a')).toBeUndefined();
+    await cache.set('a', 1);
+
+    expect(redis.calls).toBe(callsWhenOpened);
+    expect(errors.filter(isCircuitOpenError)).toHaveLength(2);
+    expect(errors[2]).toBeInstanceOf(CacheError);
+
+    // getStats() counts keys with SCAN, which is refused as well
+    const { circuitBreaker } = await cache.getStats();
+    expect(circuitBreaker).toMatchObject({ state: 'open', opened: 1, rejected: 3 });
+  });
+
+  test('should serve from the fallback provider while open', async () => {
+    const redis = fakeRedis();
+    const lines: string[] = [];
+    const logger = { ...silent, warn: (message: string) => lines.push(message), info: (message: string) => lines.push(message) };
+    const fallback = new MemoryCache({ logger: silent });
+    const cache = new RedisCache(redis as any, {
+      logger,
+      circuitBreaker: { failureThreshold: 1, openTimeout: 30, fallback }
+    });
+
+    await cache.set('a', 'from redis');
+    redis.down = true;
+    expect(await cache.get('a')).toBeUndefined(); // opens the breaker
+
+    await cache.set('b', 'from fallback');
+    expect(await cache.get('b')).toBe('from fallback');
+    expect(await fallback.get('b')).toBe('from fallback');
+    expect(lines).toContain('RedisCache circuit breaker opened, serving from memory fallback');
+
+    redis.down = false;
+    await sleep(40);
+    expect(await cache.get('a')).toBe('from redis');
+    expect(lines).toContain('RedisCache circuit breaker closed, Redis recovered');
+  });
+});
@@ -0,0 +1,38 @@
+// Test file for payload compression
+/// <reference types="@types/jest" />
+import { PayloadCompressor } from '../src/index.ts';
+
+const large = JSON.stringify(Array.from({ length: 500 }, (_, i) => ({ id: i, name: `item-${i}` })));
+
+describe('PayloadCompressor', () => {
+  test.each(['gzip', 'deflate', 'brotli'] as const)('%s should round-trip large payloads', async algorithm => {
+    const compressor = new PayloadCompressor();
+
+    const compressed = await compressor.compress(large, { algorithm });
+    expect(Buffer.isBuffer(compressed)).toBe(true);
+    expect(PayloadCompressor.isCompressed(compressed as Buffer)).toBe(true);
+    expect(compressed.length).toBeLessThan(large.length);
+
+    const restored = await compressor.decompress(compressed as Buffer);
+    expect(restored.toString()).toBe(large);
+
+    const stats = compressor.getStats();
+    expect(stats.compressedWrites).toBe(1);
+    expect(stats.bytesSaved).toBe(large.length - compressed.length);
+  });
+
+  test('should leave payloads under the threshold untouched', async () => {
+    const compressor = new PayloadCompressor();
+    const small = '{"value":1}';
+
+    expect(await compressor.compress(small, { algorithm: 'gzip' })).toBe(small);
+    expect(await compressor.compress(large, { algorithm: 'gzip', threshold: large.length + 1 })).toBe(large);
+  });
+
+  test('should pass plain payloads through on read', async () => {
+    const compressor = new PayloadCompressor();
+    const plain = Buffer.from('{"value":1}');
+
+    expect(await compressor.decompress(plain)).toBe(plain);
+  });
+});
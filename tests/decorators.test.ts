@@ -0,0 +1,155 @@
+// Test file for method caching decorators
+/// <reference types="@types/jest" />
+import {
+  CacheDecorator,
+  CacheEvict,
+  CachePut,
+  CacheRegistry,
+  Cacheable,
+  MemoryCache,
+  createCacheKey
+} from '../src/index.ts';
+
+// Applies a decorator the way `experimentalDecorators` does
+function applyLegacy(cls: any, method: string, decorator: any) {
+  const descriptor = Object.getOwnPropertyDescriptor(cls.prototype, method)!;
+  Object.defineProperty(cls.prototype, method, decorator(cls.prototype, method, descriptor) ?? descriptor);
+}
+
+// Applies a decorator the way TC39 standard decorators do
+function applyStandard(cls: any, method: string, decorator: any) {
+  cls.prototype[method] = decorator(cls.prototype[method], { kind: 'method', name: method, static: false, private: false });
+}
+
+describe('Cache Decorators', () => {
+  describe.each([
+    ['legacy', applyLegacy],
+    ['standard', applyStandard],
+  ])('%s decorators', (_mode, apply) => {
+    test('@Cacheable should cache by class, method and arguments', async () => {
+      const cache = new MemoryCache();
+      const load = jest.fn(async (id: string) => ({ id }));
+
+      class UserService {
+        async getUserById(id: string) {
+          return load(id);
+        }
+      }
+      apply(UserService, 'getUserById', Cacheable({ cache, ttl: 1000 }));
+
+      const service = new UserService();
+      expect(await service.getUserById('1')).toEqual({ id: '1' });
+      expect(await service.getUserById('1')).toEqual({ id: '1' });
+      expect(await service.getUserById('2')).toEqual({ id: '2' });
+      expect(load).toHaveBeenCalledTimes(2);
+
+      const key = createCacheKey({ resource: 'UserService', operation: 'getUserById', params: ['1'] });
+      expect(await cache.get(key)).toEqual({ id: '1' });
+    });
+
+    test('@CacheEvict and @CachePut should target the cached method', async () => {
+      const cache = new MemoryCache();
+      const db = new Map([['1', 'old']]);
+
+      class UserService {
+        async getName(id: string) {
+          return db.get(id);
+        }
+        async rename(id: string, name: string) {
+          db.set(id, name);
+        }
+        async refresh(id: string) {
+          return db.get(id);
+        }
+      }
+      apply(UserService, 'getName', Cacheable({ cache }));
+      apply(UserService, 'rename', CacheEvict({ cache, operation: 'getName', key: (id: string) =>
+        createCacheKey({ resource: 'UserService', operation: 'getName', params: [id] }) }));
+      apply(UserService, 'refresh', CachePut({ cache, operation: 'getName' }));
+
+      const service = new UserService();
+      expect(await service.getName('1')).toBe('old');
+
+      await service.rename('1', 'new');
+      expect(await service.getName('1')).toBe('new');
+
+      db.set('1', 'newer');
+      await service.refresh('1');
+      expect(await service.getName('1')).toBe('newer');
+    });
+  });
+
+  test('@CacheEvict allEntries should only evict the named operation', async () => {
+    const cache = new MemoryCache();
+    const load = jest.fn(async (id: string, role?: string) => `${id}${role ?? ''}`);
+
+    class UserService {
+      async getUserById(id: string) {
+        return load(id);
+      }
+      async getUserByIdAndRole(id: string, role: string) {
+        return load(id, role);
+      }
+      async updateAll() {}
+    }
+    applyLegacy(UserService, 'getUserById', Cacheable({ cache }));
+    applyLegacy(UserService, 'getUserByIdAndRole', Cacheable({ cache }));
+    applyLegacy(UserService, 'updateAll', CacheEvict({ cache, operation: 'getUserById', allEntries: true }));
+
+    const service = new UserService();
+    await service.getUserById('1');
+    await service.getUserByIdAndRole('1', 'admin');
+    await service.updateAll();
+    await service.getUserById('1');
+    await service.getUserByIdAndRole('1', 'admin');
+
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  test('should honor condition, unless and custom keys', async () => {
+    const cache = new MemoryCache();
+    const load = jest.fn(async (id: string) => (id === 'none' ? null : id));
+
+    class Repo {
+      async find(id: string) {
+        return load(id);
+      }
+    }
+    applyLegacy(Repo, 'find', Cacheable({
+      cache,
+      key: (id: string) => `repo:${id}`,
+      condition: (id: string) => id !== 'skip',
+      unless: result => result === null,
+    }));
+
+    const repo = new Repo();
+    await repo.find('a');
+    await repo.find('a');
+    await repo.find('skip');
+    await repo.find('skip');
+    await repo.find('none');
+    await repo.find('none');
+
+    expect(load).toHaveBeenCalledTimes(5);
+    expect(await cache.get('repo:a')).toBe('a');
+    expect(await cache.has('repo:none')).toBe(false);
+  });
+
+  test('should resolve a CacheRegistry scope lazily', async () => {
+    const registry = new CacheRegistry({ debug() {}, info() {}, warn() {}, error() {} });
+    const decorator = new CacheDecorator({ registry, options: { prefix: 'users' } });
+    const backend = new MemoryCache();
+
+    class UserService {
+      async list() {
+        return ['a'];
+      }
+    }
+    applyStandard(UserService, 'list', decorator.cache({ ttl: 1000 }));
+
+    await registry.registerBackend(backend, true);
+    await new UserService().list();
+
+    expect(await backend.get('users:UserService:list')).toEqual(['a']);
+  });
+});
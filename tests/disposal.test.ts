@@ -1,6 +1,6 @@
 // Test file for cache disposal methods
 /// <reference types="@types/jest" />
-import { MemoryCache, RedisCache, ScopedCache, createCache } from '../src/index.ts';
+import { MemoryCache, ScopedCache, createCache } from '../src/index.ts';
 
 describe('Cache Disposal Tests', () => {
   describe('MemoryCache Disposal', () => {
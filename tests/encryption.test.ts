@@ -0,0 +1,66 @@
+// Test file for encryption-at-rest
+/// <reference types="@types/jest" />
+import { randomBytes } from 'crypto';
+import { CacheError, MemoryCache, PayloadEncryptor, ScopedCache } from '../src/index.ts';
+
+const oldKey = { id: '2024-01', key: randomBytes(32) };
+const newKey = { id: '2024-06', key: randomBytes(32).toString('base64') };
+
+const logger = () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() });
+
+describe('PayloadEncryptor', () => {
+  test('should round-trip and bind the cache key', () => {
+    const encryptor = new PayloadEncryptor({ keys: [oldKey] });
+    const sealed = encryptor.encrypt('{"ssn":"123"}', 'user:1');
+
+    expect(PayloadEncryptor.isEncrypted(sealed)).toBe(true);
+    expect(sealed.toString('latin1')).not.toContain('ssn');
+    expect(encryptor.decrypt(sealed, 'user:1').toString()).toBe('{"ssn":"123"}');
+    expect(() => encryptor.decrypt(sealed, 'user:2')).toThrow(CacheError);
+  });
+
+  test('should read entries written with a rotated-out primary key', () => {
+    const before = new PayloadEncryptor({ keys: [oldKey] });
+    const after = new PayloadEncryptor({ keys: [newKey, oldKey] });
+
+    const sealed = before.encrypt('data', 'k');
+    expect(after.decrypt(sealed, 'k').toString()).toBe('data');
+
+    const resealed = after.encrypt('data', 'k');
+    expect(() => before.decrypt(resealed, 'k')).toThrow('Unknown encryption key id "2024-06"');
+  });
+
+  test('should reject invalid keys', () => {
+    expect(() => new PayloadEncryptor({ keys: [{ id: 'short', key: randomBytes(16) }] })).toThrow(CacheError);
+    expect(() => new PayloadEncryptor({ keys: [] })).toThrow(CacheError);
+  });
+});
+
+describe('ScopedCache encryption', () => {
+  test('should store ciphertext in the backend', async () => {
+    const backend = new MemoryCache();
+    const scoped = new ScopedCache(backend, { prefix: 'pii', encryption: { keys: [oldKey] } });
+
+    await scoped.set('user:1', { email: 'a@example.com' });
+
+    expect(JSON.stringify(await backend.get('pii:user:1'))).not.toContain('example.com');
+    expect(await scoped.get('user:1')).toEqual({ email: 'a@example.com' });
+    expect(await scoped.mget(['user:1', 'missing'])).toEqual([{ email: 'a@example.com' }, undefined]);
+    expect(await scoped.getOrSet('user:2', async () => ({ email: 'b@example.com' }))).toEqual({ email: 'b@example.com' });
+    expect(await scoped.get('user:2')).toEqual({ email: 'b@example.com' });
+  });
+
+  test('should treat undecryptable entries as misses and log them', async () => {
+    const backend = new MemoryCache();
+    const writer = new ScopedCache(backend, { prefix: 'pii', encryption: { keys: [oldKey] } });
+    const log = logger();
+    const reader = new ScopedCache(backend, { prefix: 'pii', logger: log, encryption: { keys: [newKey] } });
+
+    await writer.set('user:1', 'secret');
+    await backend.set('pii:plain', 'not encrypted');
+
+    expect(await reader.get('user:1')).toBeUndefined();
+    expect(await reader.get('plain')).toBeUndefined();
+    expect(log.error).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,236 @@
+// Test file for getWithMeta, expire, touch and persist
+/// <reference types="@types/jest" />
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCache, MemoryCache, RedisCache, ScopedCache, TieredCache } from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Strings and PX/XX options, PTTL/PEXPIRE/PERSIST and pipelines, on a Map with expiry times (0 = never)
+function fakeRedis() {
+  const data = new Map<string, { value: Buffer; expiresAt: number }>();
+  const commands: string[] = [];
+  const live = (key: string) => {
+    const item = data.get(key);
+    return item && (item.expiresAt === 0 || item.expiresAt > Date.now()) ? item : undefined;
+  };
+
+  const client = {
+    data,
+    commands,
+    async set(key: string, value: string | Buffer, ...args: Array<string | number>) {
+      commands.push(`set ${args.join(' ')}`.trim());
+      if (args.includes('XX') && !live(key)) return null;
+
+      const px = args.indexOf('PX');
+      data.set(key, { value: Buffer.from(value), expiresAt: px === -1 ? 0 : Date.now() + Number(args[px + 1]) });
+      return 'OK';
+    },
+    async getBuffer(key: string) {
+      return live(key)?.value ?? null;
+    },
+    async pttl(key: string) {
+      const item = live(key);
+      if (!item) return -2;
+      return item.expiresAt === 0 ? -1 : item.expiresAt - Date.now();
+    },
+    async pexpire(key: string, ttl: number) {
+      commands.push('pexpire');
+      const item = live(key);
+      if (!item) return 0;
+      item.expiresAt = Date.now() + ttl;
+      return 1;
+    },
+    async persist(key: string) {
+      commands.push('persist');
+      const item = live(key);
+      if (!item || item.expiresAt === 0) return 0;
+      item.expiresAt = 0;
+      return 1;
+    },
+    pipeline(queued: Array<[keyof typeof client, ...unknown[]]>) {
+      return {
+        exec: () => Promise.all(
+          queued.map(async ([name, ...args]) => [null, await (client[name] as any)(...args)])
+        )
+      };
+    }
+  };
+  return client;
+}
+
+describe('MemoryCache', () => {
+  test('should report creation time, expiry and size without counting a hit', async () => {
+    const cache = new MemoryCache({ logger: silent });
+    const before = Date.now();
+    await cache.set('user', { name: 'alice' }, 60_000);
+
+    const meta = await cache.getWithMeta('user');
+
+    expect(meta).toMatchObject({ value: { name: 'alice' }, size: JSON.stringify({ name: 'alice' }).length });
+    expect(meta!.createdAt).toBeGreaterThanOrEqual(before);
+    expect(meta!.remainingTtl).toBeGreaterThan(59_000);
+    expect(meta!.expiresAt).toBeGreaterThanOrEqual(before + 60_000);
+    expect((await cache.getStats()).hits).toBe(0);
+    expect(await cache.getWithMeta('missing')).toBeUndefined();
+  });
+
+  test('should extend, shorten and remove the expiry', async () => {
+    const cache = new MemoryCache({ ttl: 100, logger: silent });
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.set('c', 3, 60_000);
+
+    expect(await cache.expire('a', 60_000)).toBe(true);
+    expect(await cache.persist('b')).toBe(true);
+    expect(await cache.expire('c', 10)).toBe(true);
+    await sleep(150);
+
+    expect(await cache.get('a')).toBe(1);
+    expect((await cache.getWithMeta('b'))).toMatchObject({ value: 2, expiresAt: 0, remainingTtl: 0 });
+    expect(await cache.get('c')).toBeUndefined();
+    expect(await cache.expire('c', 1000)).toBe(false);
+  });
+
+  test('touch should reset the expiry to the default ttl', async () => {
+    const cache = new MemoryCache({ ttl: 60_000, logger: silent });
+    await cache.set('a', 1, 100);
+
+    expect(await cache.touch('a')).toBe(true);
+    await sleep(150);
+
+    expect(await cache.get('a')).toBe(1);
+  });
+
+  test('should move the soft expiry and keep the stale window', async () => {
+    const cache = new MemoryCache({ staleTtl: 60_000, logger: silent });
+    await cache.set('a', 1, 20);
+
+    expect((await cache.getWithMeta('a'))!.remainingTtl).toBeLessThanOrEqual(20);
+
+    await cache.expire('a', 5_000);
+    expect((await cache.getWithMeta('a'))!.remainingTtl).toBeGreaterThan(4_000);
+
+    await cache.expire('a', 10);
+    await sleep(30);
+
+    // Stale: no longer reported or extended, but still served by getOrSet
+    expect(await cache.getWithMeta('a')).toBeUndefined();
+    expect(await cache.touch('a')).toBe(false);
+    expect(await cache.getOrSet('a', async () => 2)).toBe(1);
+  });
+});
+
+describe('RedisCache', () => {
+  test('should read PTTL and GET in one pipeline', async () => {
+    const redis = fakeRedis();
+    const cache = new RedisCache(redis as any, { prefix: 'app', logger: silent });
+    await cache.set('user', 'alice', 60_000);
+    await cache.set('forever', 'bob', 0);
+
+    const meta = await cache.getWithMeta('user');
+
+    expect(meta).toMatchObject({ value: 'alice', size: redis.data.get('app:user')!.value.length });
+    expect(meta!.remainingTtl).toBeGreaterThan(59_000);
+    expect(await cache.getWithMeta('forever')).toMatchObject({ expiresAt: 0, remainingTtl: 0 });
+    expect(await cache.getWithMeta('missing')).toBeUndefined();
+  });
+
+  test('should mark stored entries and read bare values written by 1.1', async () => {
+    const redis = fakeRedis();
+    const cache = new RedisCache(redis as any, { prefix: 'app', logger: silent });
+    const lookalike = { value: 'bare', createdAt: 5 };
+
+    await cache.set('new', lookalike);
+    redis.data.set('app:old', { value: Buffer.from(JSON.stringify(lookalike)), expiresAt: 0 });
+
+    expect(JSON.parse(redis.data.get('app:new')!.value.toString())).toMatchObject({ __entry__: 1, value: lookalike });
+    expect(await cache.get('new')).toEqual(lookalike);
+    expect(await cache.get('old')).toEqual(lookalike);
+  });
+
+  test('should use PEXPIRE and PERSIST for plain entries', async () => {
+    const redis = fakeRedis();
+    const cache = new RedisCache(redis as any, { prefix: 'app', logger: silent });
+    await cache.set('user', 'alice', 60_000);
+    redis.commands.length = 0;
+
+    expect(await cache.expire('user', 120_000)).toBe(true);
+    expect(redis.data.get('app:user')!.expiresAt).toBeGreaterThan(Date.now() + 110_000);
+
+    expect(await cache.persist('user')).toBe(true);
+    expect(redis.data.get('app:user')!.expiresAt).toBe(0);
+    expect(await cache.persist('user')).toBe(true);
+
+    expect(redis.commands).toEqual(['pexpire', 'persist', 'persist']);
+    expect(await cache.expire('missing', 1000)).toBe(false);
+  });
+
+  test('should rewrite entries with a stale window, keeping their creation time', async () => {
+    const redis = fakeRedis();
+    const cache = new RedisCache(redis as any, { staleTtl: 10_000, logger: silent });
+    await cache.set('user', 'alice', 1_000);
+    const { createdAt } = (await cache.getWithMeta('user'))!;
+    redis.commands.length = 0;
+
+    expect(await cache.expire('user', 60_000)).toBe(true);
+
+    const meta = (await cache.getWithMeta('user'))!;
+    expect(redis.commands).toEqual(['set PX 70000 XX']);
+    expect(meta.createdAt).toBe(createdAt);
+    expect(meta.remainingTtl).toBeGreaterThan(59_000);
+  });
+});
+
+describe('ScopedCache and TieredCache', () => {
+  test('should apply the scope prefix', async () => {
+    const backend = new MemoryCache({ ttl: 60_000, logger: silent });
+    const scope = new ScopedCache(backend, { prefix: 'users', ttl: 100 });
+    await scope.set('a', 1);
+
+    expect((await scope.getWithMeta('a'))!.value).toBe(1);
+    expect(await scope.persist('a')).toBe(true);
+    expect((await backend.getWithMeta('users:a'))!.expiresAt).toBe(0);
+
+    // touch() defaults to the scope's ttl
+    await scope.touch('a');
+    await sleep(150);
+    expect(await backend.get('users:a')).toBeUndefined();
+  });
+
+  test('should keep capped tiers within their ttl', async () => {
+    const l1 = new MemoryCache({ logger: silent });
+    const l2 = new MemoryCache({ logger: silent });
+    const cache = new TieredCache([{ cache: l1, ttl: 1_000 }, l2], { logger: silent });
+    await cache.set('a', 1, 500);
+
+    expect(await cache.persist('a')).toBe(true);
+
+    expect((await l1.getWithMeta('a'))!.remainingTtl).toBeGreaterThan(900);
+    expect((await l1.getWithMeta('a'))!.remainingTtl).toBeLessThanOrEqual(1_000);
+    expect((await l2.getWithMeta('a'))!.expiresAt).toBe(0);
+    expect((await cache.getWithMeta('a'))!.value).toBe(1);
+  });
+});
+
+describe('FileCache', () => {
+  test('should rewrite the header expiry and keep it across restarts', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'cachejs-test-'));
+
+    try {
+      const first = new FileCache({ directory }, { logger: silent });
+      await first.set('a', 1, 100);
+      expect(await first.persist('a')).toBe(true);
+      await sleep(150);
+
+      const second = new FileCache({ directory }, { logger: silent });
+      const meta = await second.getWithMeta('a');
+      expect(meta).toMatchObject({ value: 1, expiresAt: 0 });
+      expect(meta!.size).toBeGreaterThan(0);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
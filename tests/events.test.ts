@@ -0,0 +1,71 @@
+// Test file for cache lifecycle events
+/// <reference types="@types/jest" />
+import { MemoryCache, ScopedCache } from '../src/index.ts';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Cache Events', () => {
+  test('should emit hit, miss, set and delete without the prefix', async () => {
+    const cache = new MemoryCache({ prefix: 'app' });
+    const events: Array<[string, string]> = [];
+
+    for (const name of ['hit', 'miss', 'set', 'delete'] as const) {
+      cache.on(name, event => events.push([name, event.key]));
+    }
+
+    await cache.get('a');
+    await cache.set('a', 1);
+    await cache.get('a');
+    await cache.delete('a');
+
+    expect(events).toEqual([['miss', 'a'], ['set', 'a'], ['hit', 'a'], ['delete', 'a']]);
+    await cache.dispose();
+  });
+
+  test('should emit evict and expire from lru-cache disposal', async () => {
+    const cache = new MemoryCache({ maxSize: 1 });
+    const evicted = jest.fn();
+    const expired = jest.fn();
+    cache.on('evict', evicted).on('expire', expired);
+
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    expect(evicted).toHaveBeenCalledWith({ key: 'a', value: 1 });
+
+    await cache.set('c', 3, 20);
+    await sleep(60);
+    expect(expired).toHaveBeenCalledWith({ key: 'c', value: 3 });
+    await cache.dispose();
+  });
+
+  test('should not let failing listeners break cache operations', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const cache = new MemoryCache({ logger });
+
+    cache.on('set', () => {
+      throw new Error('boom');
+    });
+
+    await expect(cache.set('a', 1)).resolves.toBeUndefined();
+    expect(await cache.get('a')).toBe(1);
+    expect(logger.warn).toHaveBeenCalled();
+  });
+
+  test('ScopedCache should re-emit its own keys unprefixed', async () => {
+    const backend = new MemoryCache();
+    const users = new ScopedCache(backend, { prefix: 'users' });
+    const orders = new ScopedCache(backend, { prefix: 'orders' });
+    const keys: string[] = [];
+    const listener = (event: { key: string }) => keys.push(event.key);
+
+    users.on('set', listener);
+    await users.set('1', 'alice');
+    await orders.set('1', 'order');
+    expect(keys).toEqual(['1']);
+
+    users.off('set', listener);
+    await users.set('2', 'bob');
+    expect(keys).toEqual(['1']);
+    expect(backend.listenerCount('set')).toBe(0);
+  });
+});
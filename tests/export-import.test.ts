@@ -0,0 +1,148 @@
+// Test file for exportEntries/importEntries and the JSONL dump helpers
+/// <reference types="@types/jest" />
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CacheError,
+  ICacheExportEntry,
+  MemoryCache,
+  ScopedCache,
+  exportCacheToFile,
+  importCacheFromFile,
+  readEntriesFromJsonl,
+  writeEntriesToJsonl
+} from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function collect<T>(entries: AsyncIterable<ICacheExportEntry<T>>): Promise<ICacheExportEntry<T>[]> {
+  const result: ICacheExportEntry<T>[] = [];
+  for await (const entry of entries) result.push(entry);
+  return result;
+}
+
+describe('MemoryCache export/import', () => {
+  test('should export fresh entries with their remaining TTL', async () => {
+    const cache = new MemoryCache({ prefix: 'app', ttl: 60_000, logger: silent });
+    await cache.set('user:1', { name: 'alice' }, { tags: ['users'] });
+    await cache.set('user:2', 'forever', 0);
+    await cache.set('order:1', 'o');
+    await cache.set('short', 's', 20);
+    await sleep(40);
+
+    const entries = await collect(cache.exportEntries('user:*'));
+    const byKey = Object.fromEntries(entries.map(entry => [entry.key, entry]));
+
+    expect(Object.keys(byKey).sort()).toEqual(['user:1', 'user:2']);
+    expect(byKey['user:1']!.value).toEqual({ name: 'alice' });
+    expect(byKey['user:1']!.tags).toEqual(['users']);
+    expect(byKey['user:1']!.remainingTtl).toBeGreaterThan(59_000);
+    expect(byKey['user:1']!.remainingTtl).toBeLessThanOrEqual(60_000);
+    expect(byKey['user:2']!.remainingTtl).toBe(0);
+
+    expect((await collect(cache.exportEntries())).map(entry => entry.key)).not.toContain('short');
+  });
+
+  test('should skip entries past their soft expiry', async () => {
+    const cache = new MemoryCache({ staleTtl: 60_000, logger: silent });
+    await cache.set('a', 1, 20);
+    await sleep(40);
+
+    expect(await collect(cache.exportEntries())).toEqual([]);
+  });
+
+  test('should import entries keeping remaining TTLs and tags', async () => {
+    const source = new MemoryCache({ prefix: 'old', logger: silent });
+    const target = new MemoryCache({ prefix: 'new', logger: silent });
+    await source.set('a', 1, { ttl: 50, tags: ['t'] });
+    await source.set('b', 2, 0);
+
+    expect(await target.importEntries(source.exportEntries())).toBe(2);
+    expect(await target.get('a')).toBe(1);
+    expect(await target.getRemainingTTL('a')).toBeLessThanOrEqual(50);
+    expect(await target.getRemainingTTL('b')).toBe(Infinity);
+
+    await target.invalidateTags(['t']);
+    expect(await target.get('a')).toBeUndefined();
+    expect(await target.get('b')).toBe(2);
+  });
+});
+
+describe('ScopedCache export/import', () => {
+  test('should export only the scope, without its prefix', async () => {
+    const backend = new MemoryCache({ logger: silent });
+    const users = new ScopedCache(backend, { prefix: 'users' });
+    const orders = new ScopedCache(backend, { prefix: 'orders' });
+
+    await users.set('1', 'alice', { tags: ['vip'] });
+    await orders.set('1', 'order');
+
+    const entries = await collect(users.exportEntries());
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ key: '1', value: 'alice', tags: ['vip'] });
+
+    const copy = new ScopedCache(new MemoryCache({ logger: silent }), { prefix: 'users' });
+    expect(await copy.importEntries(entries)).toBe(1);
+    expect(await copy.get('1')).toBe('alice');
+  });
+
+  test('should decrypt values sealed by the scope', async () => {
+    const key = Buffer.alloc(32, 7).toString('base64');
+    const secrets = new ScopedCache(new MemoryCache({ logger: silent }), {
+      prefix: 'secrets',
+      encryption: { keys: [{ id: 'k1', key }] }
+    });
+
+    await secrets.set('token', { value: 'abc' });
+
+    expect(await collect(secrets.exportEntries())).toEqual([
+      expect.objectContaining({ key: 'token', value: { value: 'abc' } })
+    ]);
+  });
+});
+
+describe('JSONL dump helpers', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cachejs-dump-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should round-trip a cache through a JSONL file', async () => {
+    const file = join(dir, 'dump.jsonl');
+    const source = new MemoryCache({ logger: silent });
+    await source.set('when', new Date('2024-01-01T00:00:00Z'));
+    await source.set('n', 42, 0);
+
+    expect(await exportCacheToFile(source, file)).toBe(2);
+    expect(readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(2);
+
+    const target = new MemoryCache({ logger: silent });
+    expect(await importCacheFromFile(target, file)).toBe(2);
+    expect(await target.get('when')).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(await target.get('n')).toBe(42);
+  });
+
+  test('should stream plain entries and report invalid lines', async () => {
+    const file = join(dir, 'entries.jsonl');
+    await writeEntriesToJsonl(file, [{ key: 'a', value: 1, remainingTtl: 0 }]);
+    expect(await collect(readEntriesFromJsonl(file))).toEqual([{ key: 'a', value: 1, remainingTtl: 0 }]);
+
+    writeFileSync(file, '{"key":"a","value":1,"remainingTtl":0}\n\nnot json\n');
+    await expect(collect(readEntriesFromJsonl(file))).rejects.toThrow(/line 3/);
+    await expect(collect(readEntriesFromJsonl(join(dir, 'missing.jsonl')))).rejects.toThrow();
+  });
+
+  test('should reject providers without exportEntries', async () => {
+    const cache = new MemoryCache({ logger: silent });
+    const withoutExport = Object.assign(Object.create(cache), { exportEntries: undefined });
+
+    await expect(exportCacheToFile(withoutExport, join(dir, 'x.jsonl'))).rejects.toBeInstanceOf(CacheError);
+  });
+});
@@ -0,0 +1,142 @@
+// In-process fake Memcached server speaking the text protocol (test helper)
+import { AddressInfo, Server, Socket, createServer } from 'net';
+
+interface IItem {
+  value: Buffer;
+  expiresAt: number;            // Epoch ms, 0 = never
+  cas: number;
+}
+
+export class FakeMemcachedServer {
+  readonly items = new Map<string, IItem>();
+  readonly commands: string[] = [];
+  private server: Server;
+  private sockets = new Set<Socket>();
+  private casCounter = 0;
+
+  constructor() {
+    this.server = createServer(socket => this.handle(socket));
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      for (;;) {
+        const end = buffer.indexOf('\r\n');
+        if (end === -1) return;
+
+        const line = buffer.toString('utf8', 0, end);
+        const [command, ...args] = line.split(' ');
+        let consumed = end + 2;
+        let data: Buffer | undefined;
+
+        if (['set', 'add', 'cas'].includes(command!)) {
+          const bytes = Number(args[3]);
+          if (buffer.length < consumed + bytes + 2) return;
+          data = Buffer.from(buffer.subarray(consumed, consumed + bytes));
+          consumed += bytes + 2;
+        }
+
+        buffer = buffer.subarray(consumed);
+        this.commands.push(command!);
+
+        if (command === 'quit') {
+          socket.end();
+          return;
+        }
+
+        socket.write(this.execute(command!, args, data));
+      }
+    });
+  }
+
+  private live(key: string): IItem | undefined {
+    const item = this.items.get(key);
+    if (item && item.expiresAt !== 0 && item.expiresAt <= Date.now()) {
+      this.items.delete(key);
+      return undefined;
+    }
+    return item;
+  }
+
+  private expiry(exptime: number): number {
+    if (exptime === 0) return 0;
+    return exptime > 60 * 60 * 24 * 30 ? exptime * 1000 : Date.now() + exptime * 1000;
+  }
+
+  private execute(command: string, args: string[], data?: Buffer): string | Buffer {
+    switch (command) {
+      case 'get':
+      case 'gets': {
+        const parts: Buffer[] = [];
+        for (const key of args) {
+          const item = this.live(key);
+          if (!item) continue;
+          parts.push(Buffer.from(`VALUE ${key} 0 ${item.value.length} ${item.cas}\r\n`), item.value, Buffer.from('\r\n'));
+        }
+        parts.push(Buffer.from('END\r\n'));
+        return Buffer.concat(parts);
+      }
+
+      case 'set':
+      case 'add':
+      case 'cas': {
+        const [key, , exptime, , cas] = args;
+        const existing = this.live(key!);
+
+        if (command === 'add' && existing) return 'NOT_STORED\r\n';
+        if (command === 'cas') {
+          if (!existing) return 'NOT_FOUND\r\n';
+          if (String(existing.cas) !== cas) return 'EXISTS\r\n';
+        }
+
+        this.items.set(key!, { value: data!, expiresAt: this.expiry(Number(exptime)), cas: ++this.casCounter });
+        return 'STORED\r\n';
+      }
+
+      case 'delete':
+        return this.live(args[0]!) && this.items.delete(args[0]!) ? 'DELETED\r\n' : 'NOT_FOUND\r\n';
+
+      case 'touch': {
+        const item = this.live(args[0]!);
+        if (!item) return 'NOT_FOUND\r\n';
+        item.expiresAt = this.expiry(Number(args[1]));
+        return 'TOUCHED\r\n';
+      }
+
+      case 'incr':
+      case 'decr': {
+        const item = this.live(args[0]!);
+        if (!item) return 'NOT_FOUND\r\n';
+
+        const delta = Number(args[1]) * (command === 'incr' ? 1 : -1);
+        const value = Math.max(0, Number(item.value.toString()) + delta);
+        item.value = Buffer.from(String(value));
+        item.cas = ++this.casCounter;
+        return `${value}\r\n`;
+      }
+
+      case 'stats':
+        return `STAT curr_items ${this.items.size}\r\nEND\r\n`;
+
+      default:
+        return 'ERROR\r\n';
+    }
+  }
+}
@@ -0,0 +1,100 @@
+// Test file for FileCache
+/// <reference types="@types/jest" />
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCache, createCache } from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function listFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const shard of await fs.readdir(directory)) {
+    files.push(...(await fs.readdir(join(directory, shard))).map(name => join(shard, name)));
+  }
+  return files;
+}
+
+describe('FileCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'cachejs-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should persist entries across instances', async () => {
+    const first = new FileCache({ directory }, { prefix: 'app' });
+    await first.set('user:1', { name: 'alice' }, { tags: ['users'] });
+    await first.set('short', 1, 10);
+    await first.dispose();
+
+    await sleep(20);
+    const second = new FileCache({ directory }, { prefix: 'app' });
+
+    expect(await second.get('user:1')).toEqual({ name: 'alice' });
+    expect(await second.get('short')).toBeUndefined();
+    expect(await second.size()).toBe(1);
+
+    await second.invalidateTags(['users']);
+    expect(await second.has('user:1')).toBe(false);
+  });
+
+  test('should shard files and leave no temp files behind', async () => {
+    const cache = new FileCache({ directory });
+    await Promise.all(Array.from({ length: 20 }, (_, i) => cache.set(`key:${i}`, i)));
+    await cache.set('key:0', 'overwritten');
+
+    const files = await listFiles(directory);
+    expect(files).toHaveLength(20);
+    expect(files.some(file => file.endsWith('.tmp'))).toBe(false);
+    expect(new Set(files.map(file => file.split('/')[0])).size).toBeGreaterThan(1);
+    expect(await cache.get('key:0')).toBe('overwritten');
+  });
+
+  test('should evict least recently used entries over maxBytes', async () => {
+    const cache = new FileCache({ directory, maxBytes: 1000 });
+    const evicted: string[] = [];
+    cache.on('evict', event => evicted.push(event.key));
+
+    await cache.set('a', 'x'.repeat(300));
+    await sleep(5);
+    await cache.set('b', 'x'.repeat(300));
+    await sleep(5);
+    await cache.get('a');
+    await cache.set('c', 'x'.repeat(300));
+
+    expect(evicted).toEqual(['b']);
+    expect((await cache.getStats()).bytes).toBeLessThanOrEqual(1000);
+    expect(await cache.get('a')).toBeDefined();
+  });
+
+  test('should match getKeys patterns and clear only its prefix', async () => {
+    const users = new FileCache({ directory }, { prefix: 'users' });
+    const orders = new FileCache({ directory }, { prefix: 'orders' });
+
+    await users.mset([['1:profile', 'p'], ['1:posts', 'q'], ['2:profile', 'r']]);
+    await orders.set('1', 'o');
+
+    expect((await users.getKeys('*:profile')).sort()).toEqual(['users:1:profile', 'users:2:profile']);
+
+    await users.deleteByPrefix('1:');
+    expect(await users.size()).toBe(1);
+
+    await users.clearByPrefix();
+    expect(await users.size()).toBe(0);
+    expect(await orders.get('1')).toBe('o');
+  });
+
+  test('createCache("file") should use the given directory', async () => {
+    const cache = await createCache('file', { logger: silent, file: { directory } });
+    expect(cache.backend).toBe('file');
+
+    await cache.set('a', 1);
+    expect(await listFiles(directory)).toHaveLength(1);
+  });
+});
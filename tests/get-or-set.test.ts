@@ -0,0 +1,188 @@
+// Test file for read-through loading (getOrSet / wrap)
+/// <reference types="@types/jest" />
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCache, MemcachedCache, MemcachedClient, MemoryCache, RedisCache, ScopedCache, createCacheKey } from '../src/index.ts';
+import { FakeMemcachedServer } from './fake-memcached.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// SET (with NX) and GET on a Map, and EXISTS for lock polling; expiry is not needed here
+function fakeRedis() {
+  const data = new Map<string, Buffer>();
+  return {
+    data,
+    async set(key: string, value: string | Buffer, ...args: Array<string | number>) {
+      if (args.includes('NX') && data.has(key)) return null;
+      data.set(key, Buffer.from(value));
+      return 'OK';
+    },
+    async exists(key: string) {
+      return data.has(key) ? 1 : 0;
+    },
+    async getBuffer(key: string) {
+      return data.get(key) ?? null;
+    }
+  };
+}
+
+describe('getOrSet / wrap', () => {
+  describe('MemoryCache', () => {
+    test('should load on miss and serve from cache afterwards', async () => {
+      const cache = new MemoryCache<number>();
+      const loader = jest.fn(async () => 42);
+
+      expect(await cache.getOrSet('answer', loader)).toBe(42);
+      expect(await cache.getOrSet('answer', loader)).toBe(42);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(await cache.get('answer')).toBe(42);
+    });
+
+    test('should share one in-flight loader between concurrent callers', async () => {
+      const cache = new MemoryCache<string>();
+      let release!: (value: string) => void;
+      const loader = jest.fn(() => new Promise<string>(resolve => { release = resolve; }));
+
+      const callers = Array.from({ length: 10 }, () => cache.getOrSet('cold', loader));
+      await new Promise(resolve => setImmediate(resolve));
+      release('loaded');
+
+      const results = await Promise.all(callers);
+      expect(results.every(r => r === 'loaded')).toBe(true);
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    test('should propagate loader errors and allow a retry', async () => {
+      const cache = new MemoryCache<string>();
+      const failing = jest.fn(async () => { throw new Error('db down'); });
+
+      await expect(cache.getOrSet('k', failing)).rejects.toThrow('db down');
+      expect(await cache.has('k')).toBe(false);
+
+      expect(await cache.getOrSet('k', async () => 'ok')).toBe('ok');
+    });
+
+    test('wrap should key by CacheKeyParts', async () => {
+      const cache = new MemoryCache();
+      const parts = { resource: 'User', operation: 'list', params: { page: 1 } };
+
+      await cache.wrap(parts, async () => ['a', 'b']);
+      expect(await cache.get(createCacheKey(parts))).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('ScopedCache', () => {
+    test('should pass through with prefix and scope TTL', async () => {
+      const backend = new MemoryCache();
+      const scoped = new ScopedCache(backend, { prefix: 'svc', ttl: 1000 });
+
+      await scoped.getOrSet('item', async () => 'value');
+      expect(await backend.get('svc:item')).toBe('value');
+      const remaining = await backend.getRemainingTTL('svc:item');
+      expect(Math.round(remaining!)).toBeLessThanOrEqual(1000);
+    });
+
+    test('should call the loader directly when disabled', async () => {
+      const scoped = new ScopedCache(new MemoryCache(), { prefix: 'off', enabled: false });
+      const loader = jest.fn(async () => 1);
+
+      await scoped.getOrSet('k', loader);
+      await scoped.getOrSet('k', loader);
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('RedisCache loader lock', () => {
+    test('should count one miss while waiting for another instance', async () => {
+      const redis = fakeRedis();
+      const other = new RedisCache(redis as any, { logger: silent });
+      const cache = new RedisCache(redis as any, { logger: silent });
+      const loader = jest.fn(async () => 'mine');
+
+      // Another instance holds the lock, then stores its value and releases it
+      redis.data.set('__lock__:k', Buffer.from('token'));
+      setTimeout(async () => {
+        await other.set('k', 'theirs');
+        redis.data.delete('__lock__:k');
+      }, 20);
+
+      expect(await cache.getOrSet('k', loader, { lock: { pollInterval: 10 } })).toBe('theirs');
+      expect(loader).not.toHaveBeenCalled();
+      expect(await cache.getStats()).toMatchObject({ hits: 0, misses: 1 });
+    });
+  });
+
+  describe('Stale serving', () => {
+    test('should serve stale while revalidating in the background', async () => {
+      const onStale = jest.fn();
+      const cache = new MemoryCache<string>({ staleTtl: 1000, onStale });
+
+      await cache.set('k', 'old', 20);
+      await sleep(40);
+
+      expect(await cache.get('k')).toBeUndefined();
+      expect(await cache.has('k')).toBe(false);
+      expect(await cache.getOrSet('k', async () => 'new', { ttl: 1000 })).toBe('old');
+      expect(onStale).toHaveBeenCalledWith(expect.objectContaining({ key: 'k', reason: 'revalidate' }));
+
+      await sleep(0);
+      expect(await cache.get('k')).toBe('new');
+      expect((await cache.getStats()).staleServed).toBe(1);
+    });
+
+    test('has should agree with get past the soft expiry on every backend', async () => {
+      const directory = await fs.mkdtemp(join(tmpdir(), 'cachejs-test-'));
+      const server = new FakeMemcachedServer();
+      const client = new MemcachedClient({ port: await server.start(), logger: silent });
+      const options = { staleTtl: 60_000, logger: silent };
+      const caches = [
+        new MemoryCache(options),
+        new FileCache({ directory }, options),
+        new RedisCache(fakeRedis() as any, options),
+        new MemcachedCache(client, options)
+      ];
+
+      try {
+        for (const cache of caches) {
+          await cache.set('k', 'old', 20);
+          expect(await cache.has('k')).toBe(true);
+        }
+        await sleep(40);
+
+        for (const cache of caches) {
+          expect(await cache.get('k')).toBeUndefined();
+          expect(await cache.has('k')).toBe(false);
+        }
+      } finally {
+        await client.quit();
+        await server.stop();
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    test('should serve stale when the loader fails', async () => {
+      const onStale = jest.fn();
+      const cache = new MemoryCache<string>();
+
+      await cache.set('k', 'last-good', { ttl: 20, staleIfErrorTtl: 1000 });
+      await sleep(40);
+
+      const value = await cache.getOrSet('k', async () => { throw new Error('db down'); }, { onStale });
+      expect(value).toBe('last-good');
+      expect(onStale).toHaveBeenCalledWith(expect.objectContaining({ reason: 'error' }));
+    });
+
+    test('should report unprefixed keys from a scope', async () => {
+      const onStale = jest.fn();
+      const scoped = new ScopedCache(new MemoryCache(), { prefix: 'svc', staleTtl: 1000, onStale });
+
+      await scoped.set('k', 'old', 20);
+      await sleep(40);
+
+      expect(await scoped.getOrSet('k', async () => 'new')).toBe('old');
+      expect(onStale).toHaveBeenCalledWith(expect.objectContaining({ key: 'k' }));
+    });
+  });
+});
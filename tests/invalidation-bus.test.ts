@@ -0,0 +1,95 @@
+// Test file for cross-instance invalidation
+/// <reference types="@types/jest" />
+import { InMemoryInvalidationBus, MemoryCache, ScopedCache } from '../src/index.ts';
+
+describe('Invalidation Bus', () => {
+  describe('MemoryCache', () => {
+    test('should evict deleted keys on other instances', async () => {
+      const bus = new InMemoryInvalidationBus();
+      const a = new MemoryCache();
+      const b = new MemoryCache();
+      a.subscribeInvalidations(bus);
+      b.subscribeInvalidations(bus);
+
+      await a.set('user:1', 'A');
+      await b.set('user:1', 'B');
+
+      await a.delete('user:1');
+      expect(await b.get('user:1')).toBeUndefined();
+    });
+
+    test('should evict by prefix and on clear', async () => {
+      const bus = new InMemoryInvalidationBus();
+      const a = new MemoryCache();
+      const b = new MemoryCache();
+      a.subscribeInvalidations(bus);
+      b.subscribeInvalidations(bus);
+
+      await b.set('user:1', 1);
+      await b.set('user:2', 2);
+      await b.set('order:1', 3);
+
+      await a.deleteByPrefix('user:');
+      expect(await b.has('user:1')).toBe(false);
+      expect(await b.has('user:2')).toBe(false);
+      expect(await b.has('order:1')).toBe(true);
+
+      await a.clear();
+      expect(await b.size()).toBe(0);
+    });
+
+    test('should ignore its own messages', async () => {
+      const bus = new InMemoryInvalidationBus();
+      const a = new MemoryCache();
+      a.subscribeInvalidations(bus);
+
+      const published = jest.spyOn(bus, 'publish');
+      await a.set('k', 'v');
+      await a.delete('other');
+
+      expect(published).toHaveBeenCalledWith(expect.objectContaining({ type: 'delete', key: 'other' }));
+      expect(await a.get('k')).toBe('v');
+    });
+
+    test('should stop receiving after unsubscribe and not clear peers on disconnect', async () => {
+      const bus = new InMemoryInvalidationBus();
+      const a = new MemoryCache();
+      const b = new MemoryCache();
+      a.subscribeInvalidations(bus);
+      const unsubscribe = b.subscribeInvalidations(bus);
+
+      await b.set('k', 'v');
+      await a.disconnect();
+      expect(await b.get('k')).toBe('v');
+
+      unsubscribe();
+      const c = new MemoryCache();
+      c.subscribeInvalidations(bus);
+      await c.delete('k');
+      expect(await b.get('k')).toBe('v');
+    });
+  });
+
+  describe('ScopedCache', () => {
+    test('should evict scoped keys on other instances of the scope', async () => {
+      const bus = new InMemoryInvalidationBus();
+      const backendA = new MemoryCache();
+      const backendB = new MemoryCache();
+      const a = new ScopedCache(backendA, { prefix: 'svc' });
+      const b = new ScopedCache(backendB, { prefix: 'svc' });
+      a.subscribeInvalidations(bus);
+      b.subscribeInvalidations(bus);
+
+      await b.set('item', 'data');
+      await b.set('other', 'data');
+
+      await a.delete('item');
+      expect(await b.get('item')).toBeUndefined();
+      expect(await b.get('other')).toBe('data');
+
+      await a.clear();
+      await new Promise(resolve => setImmediate(resolve));
+      expect(await backendB.has('svc:other')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+// Test file for MemcachedCache against an in-process fake server
+/// <reference types="@types/jest" />
+import { MemcachedCache, MemcachedClient, ScopedCache, createCache } from '../src/index.ts';
+import { FakeMemcachedServer } from './fake-memcached.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('MemcachedCache', () => {
+  let server: FakeMemcachedServer;
+  let client: MemcachedClient;
+  let cache: MemcachedCache;
+
+  beforeEach(async () => {
+    server = new FakeMemcachedServer();
+    const port = await server.start();
+    client = new MemcachedClient({ port, logger: silent });
+    cache = new MemcachedCache(client, { prefix: 'app', logger: silent });
+  });
+
+  afterEach(async () => {
+    await client.quit();
+    await server.stop();
+  });
+
+  test('should get, set, delete and touch values', async () => {
+    await cache.set('user:1', { name: 'alice' });
+    expect(await cache.get('user:1')).toEqual({ name: 'alice' });
+    expect(await cache.has('user:1')).toBe(true);
+
+    expect(await cache.touch('user:1', 60_000)).toBe(true);
+    expect(await cache.delete('user:1')).toBe(true);
+    expect(await cache.get('user:1')).toBeUndefined();
+    expect(await cache.touch('user:1')).toBe(false);
+  });
+
+  test('should convert millisecond TTLs to seconds', async () => {
+    await cache.set('short', 1, 1);
+    await cache.set('forever', 2, 0);
+
+    const expiries = Array.from(server.items.values()).map(item => item.expiresAt).filter(Boolean);
+    expect(expiries).toHaveLength(1);
+    expect(expiries[0]! - Date.now()).toBeGreaterThan(500);
+    expect(expiries[0]! - Date.now()).toBeLessThanOrEqual(1000);
+
+    await sleep(1100);
+    expect(await cache.get('short')).toBeUndefined();
+    expect(await cache.get('forever')).toBe(2);
+  });
+
+  test('should hash keys Memcached cannot store', async () => {
+    const key = `with space:${'x'.repeat(300)}`;
+    await cache.set(key, 'ok');
+
+    expect(await cache.get(key)).toBe('ok');
+    for (const stored of server.items.keys()) {
+      expect(stored.length).toBeLessThanOrEqual(250);
+      expect(stored).not.toMatch(/\s/);
+    }
+  });
+
+  test('should delete by prefix and pattern through namespace versions', async () => {
+    await cache.mset([['user:1', 'a'], ['user:1:posts', 'p'], ['user:2', 'b'], ['order:1', 'o']]);
+
+    await cache.deleteByPrefix('user:1');
+    expect(await cache.mget(['user:1', 'user:1:posts', 'user:2', 'order:1'])).toEqual([undefined, undefined, 'b', 'o']);
+
+    await cache.deleteByPattern('user:*');
+    expect(await cache.mget(['user:2', 'order:1'])).toEqual([undefined, 'o']);
+
+    await cache.clear();
+    expect(await cache.get('order:1')).toBeUndefined();
+  });
+
+  test('should invalidate tags', async () => {
+    await cache.set('a', 1, { tags: ['t'] });
+    await cache.set('b', 2, { tags: ['u'] });
+
+    await cache.invalidateTags(['t']);
+
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await cache.get('b')).toBe(2);
+  });
+
+  test('should clear a ScopedCache without touching other scopes', async () => {
+    const users = new ScopedCache(cache, { prefix: 'users' });
+    const orders = new ScopedCache(cache, { prefix: 'orders' });
+
+    await users.set('1', 'alice');
+    await orders.set('1', 'order');
+    await users.clear();
+
+    expect(await users.get('1')).toBeUndefined();
+    expect(await orders.get('1')).toBe('order');
+  });
+
+  test('should report connection failures as misses', async () => {
+    const errors: string[] = [];
+    const offline = new MemcachedCache(new MemcachedClient({ port: 1, timeout: 200, logger: silent }), { logger: silent });
+    offline.on('error', event => errors.push(event.operation));
+
+    expect(await offline.get('a')).toBeUndefined();
+    expect(errors).toEqual(['get']);
+  });
+});
+
+describe('createCache("memcached")', () => {
+  const original = process.env['MEMCACHED_URL'];
+
+  afterEach(() => {
+    if (original === undefined) delete process.env['MEMCACHED_URL'];
+    else process.env['MEMCACHED_URL'] = original;
+  });
+
+  test('should connect using MEMCACHED_URL', async () => {
+    const server = new FakeMemcachedServer();
+    const port = await server.start();
+    process.env['MEMCACHED_URL'] = `memcached://127.0.0.1:${port}`;
+
+    const cache = await createCache('memcached', { logger: silent });
+    expect(cache.backend).toBe('memcached');
+
+    await cache.set('a', 1);
+    expect(await cache.get('a')).toBe(1);
+
+    await cache.dispose!();
+    await server.stop();
+  });
+
+  test('should fall back to memory without MEMCACHED_URL', async () => {
+    delete process.env['MEMCACHED_URL'];
+    const cache = await createCache('memcached', { logger: silent });
+    expect(cache.backend).toBe('memory');
+  });
+});
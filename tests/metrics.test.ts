@@ -0,0 +1,57 @@
+// Test file for CacheMetrics
+/// <reference types="@types/jest" />
+import { CacheMetrics, MemoryCache, ScopedCache } from '../src/index.ts';
+
+describe('CacheMetrics', () => {
+  test('should render counters and latency in Prometheus format', async () => {
+    const metrics = new CacheMetrics({ buckets: [0.01, 1] });
+    const backend = new MemoryCache();
+    const users = metrics.instrument(new ScopedCache(backend, { prefix: 'users' }));
+
+    await users.get('1');
+    await users.set('1', 'alice');
+    await users.get('1');
+    await users.get('1');
+
+    const text = metrics.toPrometheus();
+
+    expect(text).toContain('# TYPE cachejs_hits_total counter');
+    expect(text).toContain('cachejs_hits_total{backend="memory",scope="users"} 2');
+    expect(text).toContain('cachejs_misses_total{backend="memory",scope="users"} 1');
+    expect(text).toContain('cachejs_sets_total{backend="memory",scope="users"} 1');
+    expect(text).toContain('# TYPE cachejs_operation_duration_seconds histogram');
+    expect(text).toContain('cachejs_operation_duration_seconds_bucket{backend="memory",scope="users",operation="get",le="+Inf"} 3');
+    expect(text).toContain('cachejs_operation_duration_seconds_count{backend="memory",scope="users",operation="set"} 1');
+  });
+
+  test('should mirror measurements to an OpenTelemetry meter', async () => {
+    const adds: Array<[string, number, Record<string, string> | undefined]> = [];
+    const records: Array<[string, number]> = [];
+    const meter = {
+      createCounter: (name: string) => ({ add: (value: number, attributes?: Record<string, string>) => adds.push([name, value, attributes]) }),
+      createHistogram: (name: string) => ({ record: (value: number) => records.push([name, value]) }),
+    };
+
+    const metrics = new CacheMetrics({ meter });
+    const cache = metrics.instrument(new MemoryCache({ prefix: 'app', maxSize: 1 }));
+
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+
+    expect(adds).toContainEqual(['cachejs.sets', 1, { backend: 'memory', scope: 'app' }]);
+    expect(adds).toContainEqual(['cachejs.evictions', 1, { backend: 'memory', scope: 'app' }]);
+    expect(records.map(([name]) => name)).toEqual(['cachejs.operation.duration', 'cachejs.operation.duration']);
+  });
+
+  test('should stop counting after dispose', async () => {
+    const metrics = new CacheMetrics();
+    const cache = new MemoryCache();
+    metrics.instrument(cache);
+
+    metrics.dispose();
+    await cache.get('a');
+
+    expect(metrics.toPrometheus()).not.toContain('cachejs_misses_total{');
+    expect(cache.listenerCount('miss')).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+// Test file for namespaced, versioned keys and namespace version bumps
+/// <reference types="@types/jest" />
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CacheRegistry, FileCache, MemoryCache, RedisCache, ScopedCache, createCacheKey } from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+
+// GET and the namespace version script against a Map; other commands are not needed here
+function fakeRedis() {
+  const data = new Map<string, number>();
+  const commands: string[] = [];
+  return {
+    data,
+    commands,
+    async get(key: string) {
+      commands.push('get');
+      return data.has(key) ? String(data.get(key)) : null;
+    },
+    async eval(_script: string, _keys: number, key: string, seed: number, increment: number) {
+      commands.push('eval');
+      if (!data.has(key)) data.set(key, Number(seed));
+      data.set(key, data.get(key)! + Number(increment));
+      return data.get(key)!;
+    }
+  };
+}
+
+// A server that is down: every command fails
+function downRedis() {
+  const commands: string[] = [];
+  const fail = (name: string) => async () => {
+    commands.push(name);
+    throw new Error('connection refused');
+  };
+  return { commands, get: fail('get'), getBuffer: fail('getBuffer'), set: fail('set'), eval: fail('eval') };
+}
+
+describe('createCacheKey', () => {
+  test('should add the version and namespace segments', () => {
+    expect(createCacheKey({ resource: 'User', operation: 'list' })).toBe('User:list');
+    expect(createCacheKey({ version: 1, namespace: 'data', resource: 'User', operation: 'list' })).toBe('v1:data:User:list');
+    expect(createCacheKey({ namespace: 'data', resource: 'User', operation: 'id', params: 42 }, 3))
+      .toMatch(/^data@3:User:id:[0-9a-f]+$/);
+  });
+
+  test('should be used by generateKey', () => {
+    const cache = new MemoryCache({ prefix: 'app', logger: silent });
+    expect(cache.generateKey({ version: 'v2', namespace: 'data', resource: 'User', operation: 'list' }))
+      .toBe('app:vv2:data:User:list');
+  });
+});
+
+describe('bumpVersion', () => {
+  test('should invalidate every wrapped key of a namespace', async () => {
+    const cache = new MemoryCache({ logger: silent });
+    const loader = jest.fn(async () => 'user');
+    const user = { namespace: 'User', resource: 'User', operation: 'id', params: 1 };
+    const order = { namespace: 'Order', resource: 'Order', operation: 'id', params: 1 };
+
+    await cache.wrap(user, loader);
+    await cache.wrap(order, loader);
+    await cache.wrap(user, loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+
+    expect(await cache.bumpVersion('User')).toBe(1);
+
+    await cache.wrap(user, loader);
+    await cache.wrap(order, loader);
+    expect(loader).toHaveBeenCalledTimes(3);
+    expect(await cache.versionedKey(user)).toMatch(/^User@1:User:id:/);
+  });
+
+  test('should keep versions per scope', async () => {
+    const backend = new MemoryCache({ logger: silent });
+    const users = new ScopedCache(backend, { prefix: 'users' });
+    const admins = new ScopedCache(backend, { prefix: 'admins' });
+
+    await users.bumpVersion('User');
+
+    expect(await users.getNamespaceVersion('User')).toBe(1);
+    expect(await admins.getNamespaceVersion('User')).toBe(0);
+    expect(await backend.getNamespaceVersion('users:User')).toBe(1);
+  });
+
+  test('should persist FileCache versions across restarts', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'cachejs-test-'));
+
+    try {
+      const first = new FileCache({ directory }, { logger: silent });
+      await first.bumpVersion('User');
+      await first.bumpVersion('User');
+
+      const second = new FileCache({ directory }, { logger: silent });
+      expect(await second.getNamespaceVersion('User')).toBe(2);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('should seed and increment a shared counter on Redis', async () => {
+    const redis = fakeRedis();
+    const cache = new RedisCache(redis as any, { prefix: 'app', logger: silent });
+
+    const seeded = await cache.getNamespaceVersion('User');
+
+    expect(seeded).toBeGreaterThan(0);
+    expect(await cache.bumpVersion('User')).toBe(seeded + 1);
+    expect(Array.from(redis.data.keys())).toEqual(['app:__nsv__:User']);
+  });
+
+  test('should read the Redis counter with a plain GET once it exists', async () => {
+    const redis = fakeRedis();
+    const cache = new RedisCache(redis as any, { logger: silent });
+    const user = { namespace: 'User', resource: 'User', operation: 'id', params: 1 };
+
+    const seeded = await cache.getNamespaceVersion('User');
+    redis.commands.length = 0;
+
+    expect(await cache.getNamespaceVersion('User')).toBe(seeded);
+    expect(await cache.versionedKey(user)).toContain(`User@${seeded}:`);
+    expect(redis.commands).toEqual(['get', 'get']);
+  });
+
+  test('should not cache or warm under a made-up version while Redis is down', async () => {
+    const redis = downRedis();
+    const cache = new RedisCache(redis as any, { logger: silent });
+    const registry = new CacheRegistry(silent);
+    await registry.registerBackend(cache, true);
+    const user = { namespace: 'User', resource: 'User', operation: 'id', params: 1 };
+    const loader = jest.fn(async () => 'user');
+
+    await expect(cache.getNamespaceVersion('User')).rejects.toMatchObject({ code: 'NAMESPACE_VERSION_UNAVAILABLE' });
+
+    expect(await cache.wrap(user, loader)).toBe('user');
+    expect(await registry.getScoped({ options: { prefix: 'api' } }).wrap(user, loader)).toBe('user');
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(redis.commands.every(command => command === 'get')).toBe(true);
+
+    registry.registerWarmer({ name: 'users', keys: [user], loader });
+    expect(await registry.runWarmer('users')).toMatchObject({ loaded: 0, failed: 1 });
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,289 @@
+// Test file for counters and RateLimiter
+/// <reference types="@types/jest" />
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CacheError,
+  FileCache,
+  MemoryCache,
+  MessagePackSerializer,
+  RateLimiter,
+  RedisCache,
+  ScopedCache,
+  TieredCache
+} from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Records the MULTI and the script sent by RedisCache.increment, with expiry times
+function fakeRedis() {
+  const data = new Map<string, number>();
+  const expiresAt = new Map<string, number>();
+  const commands: string[][] = [];
+  const client = {
+    data,
+    expiresAt,
+    commands,
+    async incrby(key: string, by: number) {
+      commands.push(['incrby', key, String(by)]);
+      data.set(key, (data.get(key) ?? 0) + by);
+      return data.get(key)!;
+    },
+    async getBuffer(key: string) {
+      return data.has(key) ? Buffer.from(String(data.get(key))) : null;
+    },
+    async mgetBuffer(...keys: string[]) {
+      return Promise.all(keys.map(key => client.getBuffer(key)));
+    },
+    // The counter script: a counter it creates expires after ttl
+    async eval(_script: string, _keys: number, key: string, by: number, ttl: number) {
+      commands.push(['eval', key, String(by), String(ttl)]);
+      const created = !data.has(key);
+      data.set(key, (data.get(key) ?? 0) + by);
+      if (created) expiresAt.set(key, Date.now() + ttl);
+      return data.get(key)!;
+    },
+    multi() {
+      const queued: Array<() => Promise<unknown>> = [];
+      const transaction = {
+        incrby(key: string, by: number) {
+          queued.push(() => client.incrby(key, by));
+          return transaction;
+        },
+        pexpire(key: string, ttl: number) {
+          queued.push(async () => {
+            commands.push(['pexpire', key, String(ttl)]);
+            expiresAt.set(key, Date.now() + ttl);
+          });
+          return transaction;
+        },
+        persist(key: string) {
+          queued.push(async () => commands.push(['persist', key]));
+          return transaction;
+        },
+        async exec() {
+          const results: Array<[Error | null, unknown]> = [];
+          for (const run of queued) results.push([null, await run()]);
+          return results;
+        }
+      };
+      return transaction;
+    }
+  };
+  return client;
+}
+
+describe('increment / decrement', () => {
+  test('should count atomically on MemoryCache', async () => {
+    const cache = new MemoryCache({ logger: silent });
+
+    const values = await Promise.all(Array.from({ length: 10 }, () => cache.increment('hits')));
+
+    expect(values.sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(await cache.decrement('hits', 4)).toBe(6);
+    expect(await cache.get('hits')).toBe(6);
+  });
+
+  test('should expire counters after ttl and keep the expiry without one', async () => {
+    const cache = new MemoryCache({ logger: silent });
+
+    await cache.increment('window', 1, { ttl: 40 });
+    await sleep(20);
+    await cache.increment('window');
+    await sleep(30);
+
+    expect(await cache.increment('window')).toBe(1);
+  });
+
+  test('should give new counters the default ttl', async () => {
+    const cache = new MemoryCache({ ttl: 60_000, logger: silent });
+
+    await cache.increment('n');
+
+    const meta = (await cache.getWithMeta('n'))!;
+    expect(meta.expiresAt).not.toBe(0);
+    expect(meta.remainingTtl).toBeGreaterThan(59_000);
+  });
+
+  test('should store nothing while disabled', async () => {
+    const cache = new MemoryCache({ enabled: false, logger: silent });
+
+    expect(await cache.increment('n', 2)).toBe(2);
+    expect(await cache.increment('n', 2)).toBe(2);
+
+    cache.setOptions({ enabled: true });
+    expect(await cache.get('n')).toBeUndefined();
+  });
+
+  test('should reject values that are not counters', async () => {
+    const cache = new MemoryCache({ logger: silent });
+    await cache.set('name', 'alice');
+
+    await expect(cache.increment('name')).rejects.toThrow(CacheError);
+  });
+
+  test('should prefix counters of a scope', async () => {
+    const backend = new MemoryCache({ logger: silent });
+    const scope = new ScopedCache(backend, { prefix: 'api' });
+
+    await scope.increment('calls', 2);
+
+    expect(await backend.get('api:calls')).toBe(2);
+  });
+
+  test('should keep TieredCache counters in the slowest tier', async () => {
+    const l1 = new MemoryCache({ logger: silent });
+    const l2 = new MemoryCache({ logger: silent });
+    const cache = new TieredCache([l1, l2], { logger: silent });
+
+    await cache.set('n', 5);
+    expect(await cache.increment('n')).toBe(6);
+
+    expect(await l1.get('n')).toBeUndefined();
+    expect(await cache.get('n')).toBe(6);
+  });
+
+  test('should send INCRBY and PEXPIRE in one MULTI on Redis', async () => {
+    const redis = fakeRedis();
+    const cache = new RedisCache(redis as any, { prefix: 'app', logger: silent });
+
+    expect(await cache.increment('n', 3, { ttl: 1000 })).toBe(3);
+    expect(await cache.decrement('n')).toBe(2);
+
+    expect(redis.commands).toEqual([
+      ['incrby', 'app:n', '3'],
+      ['pexpire', 'app:n', '1000'],
+      ['eval', 'app:n', '-1', '300000']
+    ]);
+  });
+
+  test('should apply one ttl rule on every backend', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'cachejs-test-'));
+    const redis = fakeRedis();
+    const memory = new MemoryCache({ ttl: 60_000, logger: silent });
+    const file = new FileCache({ directory }, { ttl: 60_000, logger: silent });
+    const backends = [
+      { cache: memory, remaining: async (key: string) => (await memory.getWithMeta(key))!.remainingTtl },
+      { cache: file, remaining: async (key: string) => (await file.getWithMeta(key))!.remainingTtl },
+      {
+        cache: new RedisCache(redis as any, { ttl: 60_000, logger: silent }),
+        remaining: async (key: string) => redis.expiresAt.get(key)! - Date.now()
+      }
+    ];
+
+    try {
+      for (const { cache, remaining } of backends) {
+        // A new counter gets the default ttl
+        await cache.increment('new');
+        expect(await remaining('new')).toBeGreaterThan(59_000);
+
+        // An existing counter keeps its expiry
+        await cache.increment('short', 1, { ttl: 5_000 });
+        expect(await cache.increment('short')).toBe(2);
+        expect(await remaining('short')).toBeLessThan(5_100);
+      }
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('should read Redis counters with get, with encryption and msgpack', async () => {
+    const redis = fakeRedis();
+    const cache = new RedisCache(redis as any, {
+      logger: silent,
+      serializer: new MessagePackSerializer(),
+      encryption: { keys: [{ id: 'k1', key: randomBytes(32) }] }
+    });
+    const errors: string[] = [];
+    cache.on('error', ({ operation }) => errors.push(operation));
+
+    await cache.increment('n', 3);
+    await cache.decrement('m', 12);
+
+    expect(await cache.get('n')).toBe(3);
+    expect(await cache.mget(['n', 'm'])).toEqual([3, -12]);
+    expect(errors).toEqual([]);
+  });
+});
+
+describe('RateLimiter', () => {
+  test('should allow up to the limit in a fixed window', async () => {
+    const cache = new MemoryCache({ logger: silent });
+    const limiter = new RateLimiter(cache, { limit: 3, window: 60_000 });
+
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await limiter.consume('client-1'));
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results[2]).toMatchObject({ remaining: 0, retryAfter: 0 });
+    expect(results[3]!.retryAfter).toBeGreaterThan(0);
+    expect((await limiter.consume('client-2')).allowed).toBe(true);
+    expect((await cache.getKeys('ratelimit:client-1:*'))).toHaveLength(1);
+  });
+
+  test('should slide the log window', async () => {
+    const limiter = new RateLimiter(new MemoryCache({ logger: silent }), {
+      algorithm: 'sliding-window-log',
+      limit: 2,
+      window: 50
+    });
+
+    expect((await limiter.consume('c')).allowed).toBe(true);
+    await sleep(30);
+    expect((await limiter.consume('c')).allowed).toBe(true);
+
+    const denied = await limiter.consume('c');
+    expect(denied.allowed).toBe(false);
+    expect(denied.retryAfter).toBeLessThanOrEqual(20);
+
+    await sleep(25);
+    expect((await limiter.consume('c')).allowed).toBe(true);
+    expect((await limiter.consume('c')).allowed).toBe(false);
+  });
+
+  test('should serialize concurrent log updates', async () => {
+    const limiter = new RateLimiter(new MemoryCache({ logger: silent }), {
+      algorithm: 'sliding-window-log',
+      limit: 5,
+      window: 60_000
+    });
+
+    const results = await Promise.all(Array.from({ length: 8 }, () => limiter.consume('c')));
+
+    expect(results.filter(result => result.allowed)).toHaveLength(5);
+  });
+
+  test('should keep the sliding log exact across processes sharing a backend', async () => {
+    const backend = new MemoryCache({ logger: silent });
+    const options = { algorithm: 'sliding-window-log', limit: 5, window: 60_000 } as const;
+    // Separate limiters do not share their in-process queue, like separate processes
+    const limiters = [new RateLimiter(backend, options), new RateLimiter(backend, options)];
+
+    const results = await Promise.all(
+      Array.from({ length: 8 }, (_, i) => limiters[i % 2]!.consume('c'))
+    );
+
+    expect(results.filter(result => result.allowed)).toHaveLength(5);
+    expect(await new ScopedCache(backend, { prefix: 'ratelimit' }).get('c:log')).toHaveLength(5);
+  });
+
+  test('should refuse the sliding log on backends without versioned writes', () => {
+    const backend = { backend: 'custom', getOptions: () => ({}), on() {}, off() {} };
+
+    expect(() => new RateLimiter(backend as any, { algorithm: 'sliding-window-log', limit: 1, window: 1000 }))
+      .toThrow(expect.objectContaining({ code: 'UNSUPPORTED_OPERATION' }));
+  });
+
+  test('should reset an id and validate options', async () => {
+    const limiter = new RateLimiter(new MemoryCache({ logger: silent }), { limit: 1, window: 60_000 });
+
+    await limiter.consume('c');
+    await limiter.reset('c');
+
+    expect((await limiter.consume('c')).allowed).toBe(true);
+    expect(() => new RateLimiter(new MemoryCache(), { limit: 0, window: 1000 })).toThrow(CacheError);
+  });
+});
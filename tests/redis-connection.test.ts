@@ -0,0 +1,145 @@
+// Test file for Redis connection config and cluster-aware key scans
+/// <reference types="@types/jest" />
+import { Cluster, Redis } from 'ioredis';
+import { RedisCache, createCache, createRedisClient, isRedisConnection } from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+
+function globToRegExp(pattern: string): RegExp {
+  return new RegExp('^' + pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$');
+}
+
+// Two masters with their own keys; multi-key DEL and pipelines fail like on a real cluster
+function fakeCluster(keysByNode: string[][]) {
+  const masters = keysByNode.map(keys => {
+    const store = new Set(keys);
+    return {
+      store,
+      async scan(_cursor: string, _match: string, pattern: string) {
+        return ['0', Array.from(store).filter(key => globToRegExp(pattern).test(key))];
+      }
+    };
+  });
+
+  return {
+    isCluster: true,
+    masters,
+    nodes: () => masters,
+    status: 'ready',
+    pipeline() {
+      throw new Error('All keys in the pipeline should belong to the same slots allocation group');
+    },
+    async del(...keys: string[]) {
+      if (keys.length > 1) throw new Error("CROSSSLOT Keys in request don't hash to the same slot");
+      return masters.filter(node => node.store.delete(keys[0]!)).length;
+    }
+  };
+}
+
+describe('createRedisClient', () => {
+  const original = process.env['REDIS_URL'];
+  const clients: Array<Redis | Cluster> = [];
+
+  afterEach(() => {
+    for (const client of clients.splice(0)) client.disconnect();
+    if (original === undefined) delete process.env['REDIS_URL'];
+    else process.env['REDIS_URL'] = original;
+  });
+
+  test('should return null without a connection config or REDIS_URL', async () => {
+    delete process.env['REDIS_URL'];
+    expect(await createRedisClient(silent)).toBeNull();
+  });
+
+  test('should prefer explicit options over REDIS_URL', async () => {
+    process.env['REDIS_URL'] = 'redis://env-host:6380';
+
+    const client = (await createRedisClient(silent, { host: 'cache.internal', port: 6390, db: 2, tls: true })) as Redis;
+    clients.push(client);
+
+    expect(client.options).toMatchObject({ host: 'cache.internal', port: 6390, db: 2, tls: {}, lazyConnect: true });
+  });
+
+  test('should fall back to REDIS_URL', async () => {
+    process.env['REDIS_URL'] = 'redis://env-host:6380';
+
+    const client = (await createRedisClient(silent)) as Redis;
+    clients.push(client);
+
+    expect(client.options).toMatchObject({ host: 'env-host', port: 6380 });
+  });
+
+  test('should create Sentinel and Cluster clients', async () => {
+    const sentinel = (await createRedisClient(silent, {
+      sentinels: [{ host: 'sentinel-1', port: 26379 }],
+      name: 'cache'
+    })) as Redis;
+    const cluster = (await createRedisClient(silent, {
+      cluster: { nodes: [{ host: 'node-1', port: 7000 }] },
+      password: 'secret'
+    })) as Cluster;
+    clients.push(sentinel, cluster);
+
+    expect(sentinel.options).toMatchObject({ name: 'cache', sentinels: [{ host: 'sentinel-1', port: 26379 }] });
+    expect(cluster.isCluster).toBe(true);
+    expect(cluster.options.redisOptions).toMatchObject({ password: 'secret' });
+    expect(isRedisConnection(cluster)).toBe(true);
+    expect(isRedisConnection({ host: 'x' })).toBe(false);
+  });
+});
+
+describe('createCache("redis") with a client', () => {
+  test('should use the given client instead of REDIS_URL', async () => {
+    const client = { status: 'ready', pipeline() {}, ping: jest.fn(async () => 'PONG') };
+
+    const cache = await createCache('redis', { redis: client as any, logger: silent });
+
+    expect(cache).toBeInstanceOf(RedisCache);
+    expect(client.ping).toHaveBeenCalled();
+  });
+});
+
+describe('RedisCache on a cluster', () => {
+  test('should scan every master in getKeys and size', async () => {
+    const cluster = fakeCluster([['app:user:a', 'app:user:b', 'other:x'], ['app:user:c', 'app:__tag__:t']]);
+    const cache = new RedisCache(cluster as any, { prefix: 'app', logger: silent });
+
+    expect((await cache.getKeys('user:*')).sort()).toEqual(['app:user:a', 'app:user:b', 'app:user:c']);
+    expect(await cache.size()).toBe(3);
+  });
+
+  test('should leave locks and namespace versions out of getKeys and size', async () => {
+    const cluster = fakeCluster([['app:user:a', 'app:__lock__:user:a'], ['app:__lock__:user:b', 'app:__nsv__:User']]);
+    const cache = new RedisCache(cluster as any, { prefix: 'app', logger: silent });
+
+    expect(await cache.getKeys('user:*')).toEqual(['app:user:a']);
+    expect(await cache.size()).toBe(1);
+  });
+
+  test('should keep user keys ending in :lock visible', async () => {
+    const cluster = fakeCluster([['app:x:lock', 'app:__lock__:x'], ['app:doc:lock']]);
+    const cache = new RedisCache(cluster as any, { prefix: 'app', logger: silent });
+    const deleted: string[] = [];
+    cache.on('delete', ({ key }) => deleted.push(key));
+
+    expect(await cache.getKeys('x:*')).toEqual(['app:x:lock']);
+    expect(await cache.size()).toBe(2);
+
+    await cache.clearByPrefix();
+    expect(deleted.sort()).toEqual(['doc:lock', 'x:lock']);
+  });
+
+  test('should delete keys one by one in clearByPrefix and mdelete', async () => {
+    const cluster = fakeCluster([['app:a', 'app:b', 'other:x'], ['app:c', 'app:__tag__:t']]);
+    const cache = new RedisCache(cluster as any, { prefix: 'app', logger: silent });
+    const errors: string[] = [];
+    cache.on('error', ({ operation }) => errors.push(operation));
+
+    expect(await cache.mdelete(['a', 'c', 'missing'])).toBe(2);
+
+    await cache.clearByPrefix();
+
+    expect(errors).toEqual([]);
+    expect(cluster.masters.map(node => Array.from(node.store))).toEqual([['other:x'], []]);
+  });
+});
@@ -0,0 +1,200 @@
+// Test file for CacheRegistry named instances and custom backend factories
+/// <reference types="@types/jest" />
+import {
+  CacheError,
+  CacheRegistry,
+  MemoryCache,
+  createCache,
+  hasBackendFactory,
+  registerBackendFactory,
+  setupApplicationCaches,
+  unregisterBackendFactory
+} from '../src/index.ts';
+import { setFlagsFromString } from 'v8';
+import { runInNewContext } from 'vm';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+
+// A third-party provider: a MemoryCache reporting its own type tag
+class LocalStorageCache extends MemoryCache {
+  override readonly backend = 'local-storage';
+}
+
+describe('CacheRegistry named instances', () => {
+  let registry: CacheRegistry;
+
+  beforeEach(() => {
+    registry = new CacheRegistry(silent);
+  });
+
+  test('should register several instances of one type by name', async () => {
+    const sessions = new MemoryCache({ logger: silent });
+    const catalog = new MemoryCache({ logger: silent });
+
+    await registry.registerBackend(sessions, { name: 'sessions', isDefault: true });
+    await registry.registerBackend(catalog, { name: 'catalog' });
+
+    await registry.getScoped({ name: 'catalog' }).set('p1', 'product');
+    await registry.getScoped().set('s1', 'session');
+
+    expect(await catalog.get('p1')).toBe('product');
+    expect(await sessions.get('s1')).toBe('session');
+    expect(registry.describeBackends()).toEqual([
+      { name: 'sessions', type: 'memory', isDefault: true },
+      { name: 'catalog', type: 'memory', isDefault: false }
+    ]);
+    expect(Object.keys(await registry.getStats())).toEqual(['sessions', 'catalog']);
+  });
+
+  test('should default the instance name to the provider type', async () => {
+    await registry.registerBackend(new MemoryCache({ logger: silent }), true);
+
+    expect(registry.listBackends()).toEqual(['memory']);
+    expect(registry.getDefaultBackend()).toBe('memory');
+  });
+
+  test('should reject a duplicate name', async () => {
+    await registry.registerBackend(new MemoryCache({ logger: silent }), { name: 'sessions' });
+
+    const duplicate = registry.registerBackend(new MemoryCache({ logger: silent }), { name: 'sessions' });
+
+    await expect(duplicate).rejects.toThrow(CacheError);
+    await expect(duplicate).rejects.toMatchObject({ code: 'BACKEND_EXISTS', statusCode: 409 });
+  });
+
+  test('should unregister an instance and clear the default', async () => {
+    await registry.registerBackend(new MemoryCache({ logger: silent }), { name: 'sessions', isDefault: true });
+
+    expect(registry.unregisterBackend('sessions')).toBe(true);
+    expect(registry.unregisterBackend('sessions')).toBe(false);
+    expect(registry.getDefaultBackend()).toBeUndefined();
+    expect(() => registry.getScoped()).toThrow(CacheError);
+  });
+
+  test('should report the instance name of live scopes', async () => {
+    await registry.registerBackend(new MemoryCache({ logger: silent }), { name: 'catalog' });
+
+    const products = registry.getScoped({ name: 'catalog', options: { prefix: 'products' } });
+
+    expect(await registry.listScopes()).toMatchObject([{ name: 'catalog', backend: 'memory', prefix: 'products' }]);
+    await products.dispose!();
+  });
+
+  test('should forget scopes once they are garbage collected', async () => {
+    setFlagsFromString('--expose-gc');
+    const gc = runInNewContext('gc') as () => void;
+    await registry.registerBackend(new MemoryCache({ logger: silent }), true);
+
+    for (let i = 0; i < 1_000; i++) {
+      registry.getScoped({ options: { prefix: `request-${i}` } });
+    }
+
+    // Finalizers run after the collection, on a later turn of the event loop
+    for (let attempt = 0; attempt < 10 && (registry as any).scopes.size >= 1_000; attempt++) {
+      gc();
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    expect((registry as any).scopes.size).toBeLessThan(1_000);
+  });
+});
+
+describe('registerBackendFactory', () => {
+  afterEach(() => {
+    unregisterBackendFactory('local-storage');
+  });
+
+  test('should let createCache build a custom backend', async () => {
+    const factory = jest.fn(options => new LocalStorageCache(options));
+    registerBackendFactory('local-storage', factory);
+
+    const cache = await createCache('local-storage', { logger: silent, ttl: 1000 });
+
+    expect(cache).toBeInstanceOf(LocalStorageCache);
+    expect(cache.backend).toBe('local-storage');
+    expect(factory).toHaveBeenCalledWith({ logger: silent, ttl: 1000 });
+    expect(hasBackendFactory('local-storage')).toBe(true);
+  });
+
+  test('should build custom tiers', async () => {
+    registerBackendFactory('local-storage', async options => new LocalStorageCache(options));
+
+    const cache = await createCache('tiered', { logger: silent, tiers: ['memory', 'local-storage'] });
+    const stats = await cache.getStats();
+
+    expect(stats.tiers?.map(tier => tier.backend)).toEqual(['memory', 'local-storage']);
+  });
+
+  test('should reject built-in and duplicate types', () => {
+    registerBackendFactory('local-storage', options => new LocalStorageCache(options));
+
+    expect(() => registerBackendFactory('redis', options => new MemoryCache(options)))
+      .toThrow(expect.objectContaining({ code: 'BACKEND_FACTORY_EXISTS' }));
+    expect(() => registerBackendFactory('local-storage', options => new LocalStorageCache(options)))
+      .toThrow(CacheError);
+  });
+
+  test('setupApplicationCaches should reuse an existing setup', async () => {
+    const factory = jest.fn(options => new LocalStorageCache(options));
+    registerBackendFactory('local-storage', factory);
+
+    try {
+      const first = await setupApplicationCaches(silent, { backend: 'local-storage' });
+      const second = await setupApplicationCaches(silent, { backend: 'local-storage' });
+
+      expect(second).toBe(first);
+      expect(factory).toHaveBeenCalledTimes(1);
+      expect(first.listBackends()).toEqual(['local-storage', 'memory']);
+    } finally {
+      CacheRegistry.reset();
+    }
+  });
+
+  test('setupApplicationCaches should reuse a setup on a fallback backend and start new warmers', async () => {
+    // Like createCache("redis") falling back to memory when Redis is unavailable
+    const factory = jest.fn(options => new MemoryCache(options));
+    registerBackendFactory('local-storage', factory);
+    const loader = jest.fn(async (key: string) => `value of ${key}`);
+
+    try {
+      await setupApplicationCaches(silent, { backend: 'local-storage' });
+      const registry = await setupApplicationCaches(silent, {
+        backend: 'local-storage',
+        warmers: [{ name: 'users', keys: ['1'], loader, critical: true }]
+      });
+
+      expect(factory).toHaveBeenCalledTimes(1);
+      expect(registry.listWarmers()).toEqual(['users']);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(registry.isReady).toBe(true);
+    } finally {
+      CacheRegistry.reset();
+    }
+  });
+
+  test('setupApplicationCaches should close, not clear, a backend it cannot register', async () => {
+    const existing = new LocalStorageCache({ logger: silent });
+    const created = new LocalStorageCache({ logger: silent });
+    const clear = jest.spyOn(created, 'clear');
+    const close = jest.spyOn(created, 'close');
+    registerBackendFactory('local-storage', () => created);
+
+    try {
+      await CacheRegistry.getInstance(silent).registerBackend(existing);
+      await existing.set('shared', 1);
+
+      await expect(setupApplicationCaches(silent, { backend: 'local-storage' }))
+        .rejects.toMatchObject({ code: 'BACKEND_EXISTS' });
+
+      expect(close).toHaveBeenCalled();
+      expect(clear).not.toHaveBeenCalled();
+      expect(await existing.get('shared')).toBe(1);
+    } finally {
+      CacheRegistry.reset();
+    }
+  });
+
+  test('should still reject unknown types', async () => {
+    await expect(createCache('nope')).rejects.toMatchObject({ code: 'UNSUPPORTED_BACKEND' });
+  });
+});
@@ -0,0 +1,67 @@
+// Test file for per-scope statistics
+/// <reference types="@types/jest" />
+import { CacheRegistry, MemoryCache, ScopedCache } from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+
+describe('ScopedCache statistics', () => {
+  test('should count each scope separately', async () => {
+    const backend = new MemoryCache();
+    const users = new ScopedCache(backend, { prefix: 'users' });
+    const orders = new ScopedCache(backend, { prefix: 'orders' });
+
+    await users.set('1', 'alice');
+    await users.get('1');
+    await users.get('2');
+    await users.delete('1');
+    await users.getOrSet('3', () => 'carol');
+    await users.getOrSet('3', () => 'carol');
+    await orders.set('1', 'order');
+
+    const stats = await users.getStats();
+    expect(stats).toMatchObject({ scope: 'users', hits: 2, misses: 2, sets: 2, deletes: 1, errors: 0, size: 1 });
+    expect(stats.hitRate).toBe(0.5);
+    expect(stats.avgLatencyMs).toBeGreaterThanOrEqual(0);
+
+    expect(await orders.getStats()).toMatchObject({ scope: 'orders', hits: 0, sets: 1, size: 1 });
+  });
+
+  test('should count backend errors reported for its keys', async () => {
+    class FailingCache extends MemoryCache {
+      override async get(key: string) {
+        this.reportError('get', 'get failed', new Error('down'), key);
+        return undefined;
+      }
+    }
+
+    const backend = new FailingCache({ logger: silent });
+    const users = new ScopedCache(backend, { prefix: 'users' });
+    const orders = new ScopedCache(backend, { prefix: 'orders' });
+
+    await users.get('1');
+
+    expect((await users.getStats()).errors).toBe(1);
+    expect((await orders.getStats()).errors).toBe(0);
+
+    await users.dispose();
+    await orders.dispose();
+    expect(backend.listenerCount('error')).toBe(0);
+  });
+
+  test('CacheRegistry should list live scopes with their stats', async () => {
+    const registry = new CacheRegistry(silent);
+    await registry.registerBackend(new MemoryCache(), true);
+
+    const users = registry.getScoped({ options: { prefix: 'users' } });
+    const orders = registry.getScopedOrDefault({ options: { prefix: 'orders' } });
+    await users.get('1');
+
+    let scopes = await registry.listScopes();
+    expect(scopes.map(scope => scope.prefix)).toEqual(['users', 'orders']);
+    expect(scopes[0]!.stats.misses).toBe(1);
+
+    await orders.dispose!();
+    scopes = await registry.listScopes();
+    expect(scopes.map(scope => scope.prefix)).toEqual(['users']);
+  });
+});
@@ -0,0 +1,88 @@
+// Test file for value serializers and MemoryCache clone mode
+/// <reference types="@types/jest" />
+import {
+  JsonSerializer,
+  MemoryCache,
+  MessagePackSerializer,
+  TypedJsonSerializer
+} from '../src/index.ts';
+
+const sample = () => ({
+  date: new Date('2024-05-01T12:34:56.789Z'),
+  map: new Map<string, unknown>([['a', 1], ['b', { nested: [1, 2] }]]),
+  set: new Set(['x', 'y']),
+  big: 12345678901234567890n,
+  buffer: Buffer.from('hello'),
+  missing: undefined,
+  nan: NaN,
+  negative: -123456,
+  float: 3.14,
+  large: 2 ** 40,
+  text: 'héllo '.repeat(20),
+  list: [null, true, false, undefined],
+  $t: 'not a marker',
+});
+
+describe('Serializers', () => {
+  test.each([
+    ['typed json', new TypedJsonSerializer()],
+    ['msgpack', new MessagePackSerializer()],
+  ])('%s should round-trip rich types', (_name, serializer) => {
+    const value = sample();
+    const encoded = serializer.serialize(value);
+    const decoded = serializer.deserialize(Buffer.from(encoded)) as ReturnType<typeof sample>;
+
+    expect(decoded).toEqual(value);
+    expect(decoded.date).toBeInstanceOf(Date);
+    expect(decoded.map).toBeInstanceOf(Map);
+    expect(decoded.set).toBeInstanceOf(Set);
+    expect(decoded.big).toBe(value.big);
+    expect(Buffer.isBuffer(decoded.buffer)).toBe(true);
+    expect('missing' in decoded).toBe(true);
+  });
+
+  test('msgpack should store buffers as raw bytes', () => {
+    const payload = Buffer.alloc(1000, 7);
+    const encoded = new MessagePackSerializer().serialize({ payload });
+    const json = new JsonSerializer().serialize({ payload });
+
+    expect(encoded.length).toBeLessThan(1100);
+    expect(json.length).toBeGreaterThan(2000);
+  });
+
+  test('json should keep the historical behavior', () => {
+    const serializer = new JsonSerializer();
+    const decoded = serializer.deserialize(serializer.serialize({ d: new Date(0) }));
+    expect(decoded).toEqual({ d: '1970-01-01T00:00:00.000Z' });
+  });
+});
+
+describe('MemoryCache clone mode', () => {
+  test('should return live references by default', async () => {
+    const cache = new MemoryCache();
+    const value = { count: 1 };
+
+    await cache.set('k', value);
+    value.count = 2;
+    expect(await cache.get('k')).toBe(value);
+  });
+
+  test('should copy on write and read through the serializer', async () => {
+    const cache = new MemoryCache({ clone: true, serializer: new TypedJsonSerializer() });
+    const value = { count: 1, at: new Date(0) };
+
+    await cache.set('k', value);
+    value.count = 2;
+
+    const read = await cache.get('k');
+    expect(read).toEqual({ count: 1, at: new Date(0) });
+    read.count = 3;
+    expect((await cache.get('k')).count).toBe(1);
+  });
+
+  test('should match Redis JSON semantics with the default serializer', async () => {
+    const cache = new MemoryCache({ clone: true });
+    await cache.set('k', { at: new Date(0) });
+    expect(await cache.get('k')).toEqual({ at: '1970-01-01T00:00:00.000Z' });
+  });
+});
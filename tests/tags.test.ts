@@ -0,0 +1,68 @@
+// Test file for tag-based invalidation
+/// <reference types="@types/jest" />
+import { InMemoryInvalidationBus, MemoryCache, ScopedCache, TieredCache } from '../src/index.ts';
+
+describe('Tag Invalidation', () => {
+  test('MemoryCache should delete every key carrying a tag', async () => {
+    const cache = new MemoryCache();
+
+    await cache.set('user:42', { id: 42 }, { tags: ['User:42'] });
+    await cache.set('orders:42', [1, 2], { tags: ['User:42', 'Order'] });
+    await cache.set('orders:7', [3], { tags: ['Order'] });
+
+    await cache.invalidateTags(['User:42']);
+
+    expect(await cache.has('user:42')).toBe(false);
+    expect(await cache.has('orders:42')).toBe(false);
+    expect(await cache.get('orders:7')).toEqual([3]);
+  });
+
+  test('MemoryCache should drop tags of overwritten keys', async () => {
+    const cache = new MemoryCache();
+
+    await cache.set('k', 'v1', { tags: ['a'] });
+    await cache.set('k', 'v2', { tags: ['b'] });
+    await cache.invalidateTags(['a']);
+
+    expect(await cache.get('k')).toBe('v2');
+  });
+
+  test('ScopedCache should namespace tags under its prefix', async () => {
+    const backend = new MemoryCache();
+    const users = new ScopedCache(backend, { prefix: 'users' });
+    const orders = new ScopedCache(backend, { prefix: 'orders' });
+
+    await users.set('1', 'u', { tags: ['hot'] });
+    await orders.set('1', 'o', { tags: ['hot'] });
+
+    await users.invalidateTags(['hot']);
+
+    expect(await users.get('1')).toBeUndefined();
+    expect(await orders.get('1')).toBe('o');
+  });
+
+  test('TieredCache should invalidate tags on every tier', async () => {
+    const l1 = new MemoryCache();
+    const l2 = new MemoryCache();
+    const cache = new TieredCache([l1, l2]);
+
+    await cache.set('k', 'v', { tags: ['t'] });
+    await cache.invalidateTags(['t']);
+
+    expect(await l1.has('k')).toBe(false);
+    expect(await l2.has('k')).toBe(false);
+  });
+
+  test('should propagate tag invalidation over the bus', async () => {
+    const bus = new InMemoryInvalidationBus();
+    const a = new MemoryCache();
+    const b = new MemoryCache();
+    a.subscribeInvalidations(bus);
+    b.subscribeInvalidations(bus);
+
+    await b.set('k', 'v', { tags: ['t'] });
+    await a.invalidateTags(['t']);
+
+    expect(await b.has('k')).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+// Test file for the tiered (L1/L2) cache
+/// <reference types="@types/jest" />
+import { MemoryCache, TieredCache, createCache } from '../src/index.ts';
+
+describe('TieredCache', () => {
+  test('should fall through tiers and fill the faster ones', async () => {
+    const l1 = new MemoryCache();
+    const l2 = new MemoryCache();
+    const cache = new TieredCache([l1, l2]);
+
+    await l2.set('user:1', { id: 1 });
+
+    expect(await cache.get('user:1')).toEqual({ id: 1 });
+    expect(await l1.get('user:1')).toEqual({ id: 1 });
+
+    expect(await cache.get('user:1')).toEqual({ id: 1 });
+
+    const stats = await cache.getStats();
+    expect(stats.backend).toBe('tiered');
+    expect(stats.tiers?.map(t => t.hits)).toEqual([1, 1]);
+  });
+
+  test('should backfill with the tags and remaining TTL of the slower tier', async () => {
+    const l1 = new MemoryCache();
+    const l2 = new MemoryCache();
+    const cache = new TieredCache([l1, l2], { ttl: 60_000 });
+
+    await l2.set('user:1', { id: 1 }, { ttl: 5_000, tags: ['users'] });
+    await l2.set('user:2', { id: 2 }, { ttl: 5_000, tags: ['users'] });
+    await cache.get('user:1');
+    await cache.mget(['user:2']);
+
+    expect((await l1.getRemainingTTL('user:1'))!).toBeLessThan(6_000);
+    expect((await l1.getRemainingTTL('user:2'))!).toBeLessThan(6_000);
+
+    await cache.invalidateTags(['users']);
+
+    expect(await cache.get('user:1')).toBeUndefined();
+    expect(await cache.mget(['user:2'])).toEqual([undefined]);
+  });
+
+  test('should backfill from the entry it read, without reading the slower tier again', async () => {
+    const l1 = new MemoryCache();
+    const l2 = new MemoryCache();
+    const cache = new TieredCache([l1, l2]);
+    const peek = jest.spyOn(l2, 'peekEntry');
+    const meta = jest.spyOn(l2, 'getWithMeta');
+
+    await l2.set('user:1', { id: 1 }, { ttl: 5_000, staleTtl: 1_000 });
+    await l2.set('user:2', { id: 2 }, { ttl: 5_000 });
+
+    expect(await cache.get('user:1')).toEqual({ id: 1 });
+    expect(await cache.mget(['user:2'])).toEqual([{ id: 2 }]);
+    expect(peek).toHaveBeenCalledTimes(2);
+    expect(meta).not.toHaveBeenCalled();
+
+    const copy = await l1.peekEntry('user:1');
+    expect(copy?.entry.staleTtl).toBe(1_000);
+    expect(copy?.entry.staleAt).toBeLessThanOrEqual(Date.now() + 5_000);
+  });
+
+  test('should serve stale values through the tiers', async () => {
+    const l1 = new MemoryCache();
+    const l2 = new MemoryCache();
+    const cache = new TieredCache([{ cache: l1, ttl: 1 }, l2]);
+
+    await cache.set('a', 'old', { ttl: 20, staleTtl: 60_000 });
+    await cache.set('b', 'old', { ttl: 20, staleIfErrorTtl: 60_000 });
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    expect(await cache.get('a')).toBeUndefined();
+
+    const loader = jest.fn(async () => 'new');
+    expect(await cache.getOrSet('a', loader)).toBe('old');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(await cache.get('a')).toBe('new');
+
+    expect(await cache.getOrSet('b', async () => { throw new Error('down'); })).toBe('old');
+  });
+
+  test('should write and delete on every tier with per-tier TTL caps', async () => {
+    const l1 = new MemoryCache();
+    const l2 = new MemoryCache();
+    const cache = new TieredCache([{ cache: l1, ttl: 1000 }, l2], { ttl: 60_000 });
+
+    await cache.set('k', 'v');
+    expect(Math.round((await l1.getRemainingTTL('k'))!)).toBeLessThanOrEqual(1000);
+    expect((await l2.getRemainingTTL('k'))!).toBeGreaterThan(1000);
+
+    expect(await cache.delete('k')).toBe(true);
+    expect(await l1.has('k')).toBe(false);
+    expect(await l2.has('k')).toBe(false);
+  });
+
+  test('should delete by prefix across tiers', async () => {
+    const l1 = new MemoryCache();
+    const l2 = new MemoryCache();
+    const cache = new TieredCache([l1, l2]);
+
+    await cache.set('a:1', 1);
+    await cache.set('b:1', 2);
+    await cache.deleteByPrefix('a:');
+
+    expect(await cache.has('a:1')).toBe(false);
+    expect(await cache.get('b:1')).toBe(2);
+  });
+
+  test('should be built by createCache, skipping unavailable tiers', async () => {
+    const previous = process.env['REDIS_URL'];
+    delete process.env['REDIS_URL'];
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    const cache = await createCache('tiered', { logger });
+
+    expect(cache.backend).toBe('tiered');
+    expect((await cache.getStats()).tiers?.map(t => t.backend)).toEqual(['memory']);
+
+    if (previous !== undefined) process.env['REDIS_URL'] = previous;
+  });
+
+  test('should apply the prefix once when built by createCache', async () => {
+    const cache = await createCache('tiered', { prefix: 'app', tiers: ['memory'] });
+    const [tier] = (cache as any).tiers;
+
+    await cache.set('user:1', 1);
+
+    expect(await tier.cache.getKeys('*')).toEqual(['app:user:1']);
+  });
+});
@@ -0,0 +1,117 @@
+// Test file for getVersioned, setIfVersion and setIfAbsent
+/// <reference types="@types/jest" />
+import { createHash } from 'crypto';
+import { CacheError, MemoryCache, RedisCache, ScopedCache, TieredCache } from '../src/index.ts';
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+
+// SET NX/PX, GET and the compare-and-set script, with redis.sha1hex() done in JS
+function fakeRedis() {
+  const data = new Map<string, Buffer>();
+  const sha1 = (raw: Buffer) => createHash('sha1').update(raw).digest('hex');
+
+  return {
+    data,
+    async getBuffer(key: string) {
+      return data.get(key) ?? null;
+    },
+    async set(key: string, value: string | Buffer, ...args: Array<string | number>) {
+      if (args.includes('NX') && data.has(key)) return null;
+      data.set(key, Buffer.from(value));
+      return 'OK';
+    },
+    async eval(_script: string, _keys: number, key: string, version: string, value: string | Buffer) {
+      const current = data.get(key);
+      if (!current || sha1(current) !== version) return 0;
+      data.set(key, Buffer.from(value));
+      return 1;
+    }
+  };
+}
+
+describe('MemoryCache', () => {
+  test('should only write over the version that was read', async () => {
+    const cache = new MemoryCache({ logger: silent });
+    await cache.set('report', { total: 1 });
+
+    const first = (await cache.getVersioned('report'))!;
+    const second = (await cache.getVersioned('report'))!;
+    expect(first).toEqual(second);
+
+    expect(await cache.setIfVersion('report', { total: 2 }, first.version)).toBe(true);
+    expect(await cache.setIfVersion('report', { total: 3 }, second.version)).toBe(false);
+    expect(await cache.get('report')).toEqual({ total: 2 });
+  });
+
+  test('should never reuse a version after delete and re-create', async () => {
+    const cache = new MemoryCache({ logger: silent });
+    await cache.set('report', 1);
+    const { version } = (await cache.getVersioned('report'))!;
+
+    await cache.delete('report');
+    await cache.set('report', 1);
+
+    expect(await cache.setIfVersion('report', 2, version)).toBe(false);
+    expect(await cache.setIfVersion('missing', 2, version)).toBe(false);
+  });
+
+  test('setIfAbsent should only create', async () => {
+    const cache = new MemoryCache({ logger: silent });
+
+    const results = await Promise.all([cache.setIfAbsent('a', 1), cache.setIfAbsent('a', 2)]);
+
+    expect(results).toEqual([true, false]);
+    expect(await cache.get('a')).toBe(1);
+  });
+});
+
+describe('RedisCache', () => {
+  test('should compare the hash of the stored payload', async () => {
+    const redis = fakeRedis();
+    const cache = new RedisCache(redis as any, { prefix: 'app', logger: silent });
+
+    expect(await cache.setIfAbsent('report', 1)).toBe(true);
+    expect(await cache.setIfAbsent('report', 2)).toBe(false);
+
+    const read = (await cache.getVersioned('report'))!;
+    expect(read.value).toBe(1);
+
+    expect(await cache.setIfVersion('report', 2, read.version)).toBe(true);
+    expect(await cache.setIfVersion('report', 3, read.version)).toBe(false);
+    expect(await cache.get('report')).toBe(2);
+    expect(Array.from(redis.data.keys())).toEqual(['app:report']);
+  });
+});
+
+describe('ScopedCache and TieredCache', () => {
+  test('should prefix versioned writes of a scope', async () => {
+    const backend = new MemoryCache({ logger: silent });
+    const scope = new ScopedCache(backend, { prefix: 'reports' });
+
+    expect(await scope.setIfAbsent('daily', 1)).toBe(true);
+    const read = (await scope.getVersioned('daily'))!;
+    expect(await scope.setIfVersion('daily', 2, read.version)).toBe(true);
+
+    expect(await backend.get('reports:daily')).toBe(2);
+    expect((await scope.getStats()).sets).toBe(2);
+  });
+
+  test('should write to the slowest tier and drop faster copies', async () => {
+    const l1 = new MemoryCache({ logger: silent });
+    const l2 = new MemoryCache({ logger: silent });
+    const cache = new TieredCache([l1, l2], { logger: silent });
+    await cache.set('a', 1);
+
+    const read = (await cache.getVersioned('a'))!;
+    expect(await cache.setIfVersion('a', 2, read.version)).toBe(true);
+
+    expect(await l1.get('a')).toBeUndefined();
+    expect(await cache.get('a')).toBe(2);
+  });
+
+  test('should reject backends without versioned writes', async () => {
+    const scope = new ScopedCache({ backend: 'custom', getOptions: () => ({}), on() {}, off() {} } as any);
+
+    await expect(scope.setIfAbsent('a', 1)).rejects.toThrow(CacheError);
+  });
+});
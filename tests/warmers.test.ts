@@ -0,0 +1,142 @@
+// Test file for CacheRegistry warmers
+/// <reference types="@types/jest" />
+import { CacheError, CacheRegistry, MemoryCache, createCacheKey } from '../src/index.ts';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function recordingLogger() {
+  const lines: Array<[string, string]> = [];
+  const log = (level: string) => (message: string) => lines.push([level, message]);
+  return { lines, logger: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') } };
+}
+
+describe('CacheRegistry warmers', () => {
+  let registry: CacheRegistry;
+  let backend: MemoryCache;
+  let log: ReturnType<typeof recordingLogger>;
+
+  beforeEach(async () => {
+    log = recordingLogger();
+    registry = new CacheRegistry(log.logger);
+    backend = new MemoryCache({ logger: log.logger });
+    await registry.registerBackend(backend, true);
+  });
+
+  afterEach(() => {
+    registry.stopWarmers();
+  });
+
+  test('should warm keys and CacheKeyParts into the warmer scope', async () => {
+    registry.registerWarmer({
+      name: 'users',
+      options: { prefix: 'users' },
+      keys: ['1', { resource: 'User', operation: 'list' }],
+      loader: key => `value of ${key}`,
+      critical: true
+    });
+
+    const [report] = await registry.startWarmers();
+
+    expect(report).toMatchObject({ name: 'users', loaded: 2, skipped: 0, failed: 0 });
+    expect(await backend.get('users:1')).toBe('value of 1');
+    expect(await backend.get(`users:${createCacheKey({ resource: 'User', operation: 'list' })}`)).toBe('value of User:list');
+  });
+
+  test('should limit loader concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+
+    registry.registerWarmer({
+      name: 'slow',
+      keys: function* () {
+        for (let i = 0; i < 10; i++) yield `k${i}`;
+      },
+      concurrency: 3,
+      loader: async key => {
+        peak = Math.max(peak, ++active);
+        await sleep(5);
+        active--;
+        return key;
+      }
+    });
+
+    const report = await registry.runWarmer('slow');
+
+    expect(report.loaded).toBe(10);
+    expect(peak).toBe(3);
+  });
+
+  test('should count and log failed and skipped keys', async () => {
+    registry.registerWarmer({
+      name: 'flaky',
+      keys: ['ok', 'missing', 'broken'],
+      loader: key => {
+        if (key === 'broken') throw new Error('db down');
+        return key === 'missing' ? undefined : key;
+      }
+    });
+
+    const report = await registry.runWarmer('flaky');
+
+    expect(report).toMatchObject({ loaded: 1, skipped: 1, failed: 1 });
+    expect(log.lines).toContainEqual(['warn', 'CacheWarmer - "flaky" failed to warm key "broken": db down']);
+    expect(log.lines.some(([level, message]) => level === 'warn' && message.includes('1 failed'))).toBe(true);
+  });
+
+  test('should only report ready once critical warmers have run', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => (release = resolve));
+
+    registry.registerWarmer({ name: 'critical', keys: ['a'], loader: () => 1, critical: true });
+    registry.registerWarmer({ name: 'background', keys: ['b'], loader: async () => { await gate; return 2; } });
+
+    expect(registry.isReady).toBe(false);
+
+    const reports = await registry.startWarmers();
+    expect(reports.map(report => report.name)).toEqual(['critical']);
+    expect(registry.isReady).toBe(true);
+    expect(await backend.get('b')).toBeUndefined();
+
+    release();
+    await registry.runWarmer('background');
+    expect(await backend.get('b')).toBe(2);
+  });
+
+  test('should fail startup when a critical key source throws', async () => {
+    registry.registerWarmer({
+      name: 'broken',
+      keys: () => { throw new Error('no keys'); },
+      loader: () => 1,
+      critical: true
+    });
+
+    await expect(registry.startWarmers()).rejects.toThrow(CacheError);
+    expect(registry.isReady).toBe(false);
+  });
+
+  test('should re-run scheduled warmers', async () => {
+    let runs = 0;
+    registry.registerWarmer({
+      name: 'periodic',
+      keys: () => [`run:${++runs}`],
+      loader: () => true,
+      interval: 20,
+      runOnStart: false
+    });
+
+    await registry.startWarmers();
+    await sleep(70);
+    registry.stopWarmers();
+
+    expect(runs).toBeGreaterThanOrEqual(2);
+    expect(await backend.get('run:1')).toBe(true);
+  });
+
+  test('should reject duplicate and unknown warmers', async () => {
+    registry.registerWarmer({ name: 'w', keys: [], loader: () => 1 });
+
+    expect(() => registry.registerWarmer({ name: 'w', keys: [], loader: () => 1 })).toThrow(CacheError);
+    await expect(registry.runWarmer('nope')).rejects.toMatchObject({ code: 'WARMER_NOT_FOUND' });
+    expect(registry.listWarmers()).toEqual(['w']);
+  });
+});